@@ -0,0 +1,61 @@
+// Query parsing and downsampling for GET /api/markets/:ticker/history.
+const HISTORY_RANGES_MS = {
+  "1d": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+  "90d": 90 * 24 * 60 * 60 * 1000,
+  "1y": 365 * 24 * 60 * 60 * 1000,
+};
+export const HISTORY_DEFAULT_POINTS = 200;
+export const HISTORY_MIN_POINTS = 2;
+export const HISTORY_MAX_POINTS = 1000;
+
+// null for an unknown range, unparseable dates, from after to, or a non-numeric points value.
+export const parseHistoryWindow = (query, now = Date.now()) => {
+  const range = typeof query.range === "string" ? query.range : "30d";
+  if (range !== "all" && !HISTORY_RANGES_MS[range]) return null;
+
+  const to = typeof query.to === "string" ? Date.parse(query.to) : now;
+  const from =
+    typeof query.from === "string"
+      ? Date.parse(query.from)
+      : range === "all"
+        ? 0
+        : to - HISTORY_RANGES_MS[range];
+  if (Number.isNaN(from) || Number.isNaN(to) || from > to) return null;
+
+  const requested = query.points === undefined ? HISTORY_DEFAULT_POINTS : Number(query.points);
+  if (!Number.isFinite(requested)) return null;
+
+  return {
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    points: Math.max(HISTORY_MIN_POINTS, Math.min(HISTORY_MAX_POINTS, Math.floor(requested))),
+  };
+};
+
+// Splits the window into equal time buckets and keeps the last observation in each, so the
+// series still ends on the latest price.
+export const downsampleHistory = (rows, maxPoints, fromIso, toIso) => {
+  if (rows.length <= maxPoints) return rows;
+  const start = Date.parse(fromIso);
+  const span = Math.max(1, Date.parse(toIso) - start);
+  const buckets = new Map();
+  for (const row of rows) {
+    const bucket = Math.min(
+      maxPoints - 1,
+      Math.floor(((Date.parse(row.captured_at) - start) / span) * maxPoints),
+    );
+    buckets.set(bucket, row);
+  }
+  return Array.from(buckets.values());
+};
+
+// Every strike of an event is recorded under its own market ticker. An event ticker resolves
+// to the event's current primary strike so two strikes never share one series.
+export const historyMarketTicker = (db, ticker) => {
+  const event = db
+    .prepare("SELECT market_ticker FROM markets WHERE ticker = ? AND market_ticker IS NOT NULL")
+    .get(ticker);
+  return event?.market_ticker ?? ticker;
+};
@@ -0,0 +1,173 @@
+import Database from "better-sqlite3";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+// Applies numbered files from backend/migrations (NNN_name.js exporting `up(db)`), each in its
+// own transaction, and records them in schema_version.
+//   node backend/migrate.js status | up [--dry-run] [--db path/to/markets.db]
+// --dry-run applies the pending migrations in a transaction and rolls it back.
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const MIGRATIONS_DIR = path.join(__dirname, "migrations");
+const DEFAULT_DB_PATH = path.join(__dirname, "markets.db");
+const MIGRATION_FILE = /^(\d+)_([a-z0-9_-]+)\.js$/i;
+
+export const loadMigrations = async (dir = MIGRATIONS_DIR) => {
+  const files = fs
+    .readdirSync(dir)
+    .filter((file) => MIGRATION_FILE.test(file))
+    .sort();
+
+  const migrations = [];
+  for (const file of files) {
+    const [, version, name] = file.match(MIGRATION_FILE);
+    const module = await import(pathToFileURL(path.join(dir, file)).href);
+    if (typeof module.up !== "function") {
+      throw new Error(`migration_missing_up: ${file}`);
+    }
+    migrations.push({
+      version: Number(version),
+      name,
+      description: module.description || name,
+      up: module.up,
+    });
+  }
+
+  const versions = migrations.map((migration) => migration.version);
+  if (new Set(versions).size !== versions.length) {
+    throw new Error("duplicate_migration_version");
+  }
+  return migrations;
+};
+
+const ensureVersionTable = (db) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+};
+
+export const getMigrationStatus = (db, migrations) => {
+  ensureVersionTable(db);
+  const applied = new Map(
+    db
+      .prepare("SELECT version, name, applied_at FROM schema_version ORDER BY version")
+      .all()
+      .map((row) => [row.version, row]),
+  );
+
+  return {
+    current: applied.size ? Math.max(...applied.keys()) : 0,
+    applied: migrations
+      .filter((migration) => applied.has(migration.version))
+      .map((migration) => ({
+        version: migration.version,
+        name: migration.name,
+        applied_at: applied.get(migration.version).applied_at,
+      })),
+    pending: migrations
+      .filter((migration) => !applied.has(migration.version))
+      .map(({ version, name, description }) => ({ version, name, description })),
+  };
+};
+
+class DryRunRollback extends Error {}
+
+// A dry run applies every pending migration inside one transaction and then rolls it back, so
+// a migration that would fail still fails here while the database is left untouched.
+const dryRunMigrations = (db, pending, record) => {
+  try {
+    db.transaction(() => {
+      for (const migration of pending) {
+        migration.up(db);
+        record.run(migration.version, migration.name);
+      }
+      throw new DryRunRollback();
+    })();
+  } catch (err) {
+    if (!(err instanceof DryRunRollback)) throw err;
+  }
+  return pending.map(({ version, name }) => ({ version, name }));
+};
+
+export const runMigrations = (db, migrations, { dryRun = false, log = () => {} } = {}) => {
+  const status = getMigrationStatus(db, migrations);
+  const pending = migrations.filter((migration) =>
+    status.pending.some((item) => item.version === migration.version),
+  );
+  const record = db.prepare("INSERT INTO schema_version (version, name) VALUES (?, ?)");
+  if (dryRun) return { ...status, ran: [], checked: dryRunMigrations(db, pending, record) };
+
+  const ran = [];
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.name);
+    })();
+    log(`Applied migration ${migration.version} ${migration.name}`);
+    ran.push({ version: migration.version, name: migration.name });
+  }
+
+  return { ...getMigrationStatus(db, migrations), ran };
+};
+
+export const migrateDatabase = async (db, options = {}) =>
+  runMigrations(db, await loadMigrations(options.dir), options);
+
+const printStatus = (status) => {
+  console.log(`Schema version: ${status.current}`);
+  for (const item of status.applied) {
+    console.log(`  [x] ${String(item.version).padStart(3, "0")} ${item.name} (${item.applied_at})`);
+  }
+  for (const item of status.pending) {
+    console.log(`  [ ] ${String(item.version).padStart(3, "0")} ${item.name}`);
+  }
+};
+
+const runCli = async (args) => {
+  const command = args.find((arg) => !arg.startsWith("--")) || "status";
+  const dbFlag = args.indexOf("--db");
+  const dbPath = dbFlag >= 0 && args[dbFlag + 1] ? path.resolve(args[dbFlag + 1]) : DEFAULT_DB_PATH;
+  const dryRun = args.includes("--dry-run");
+
+  if (command !== "status" && command !== "up") {
+    console.error(`Unknown command "${command}". Use "status" or "up [--dry-run]".`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const db = new Database(dbPath);
+  try {
+    const migrations = await loadMigrations();
+    if (command === "status") {
+      printStatus(getMigrationStatus(db, migrations));
+      return;
+    }
+
+    const result = runMigrations(db, migrations, { dryRun, log: console.log });
+    if (dryRun) {
+      console.log(
+        result.checked.length
+          ? `Would apply (checked and rolled back): ${result.checked
+              .map((item) => `${item.version} ${item.name}`)
+              .join(", ")}`
+          : "Nothing to apply.",
+      );
+      return;
+    }
+    console.log(result.ran.length ? `Now at version ${result.current}.` : "Already up to date.");
+  } finally {
+    db.close();
+  }
+};
+
+if (process.argv[1] && path.resolve(process.argv[1]) === __filename) {
+  runCli(process.argv.slice(2)).catch((err) => {
+    console.error("Error: migration failed", err?.message || err);
+    process.exitCode = 1;
+  });
+}
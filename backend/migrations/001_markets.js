@@ -0,0 +1,34 @@
+// Baseline: the markets table as db.js used to build it, including the columns that were
+// bolted on later with ALTER TABLE, so databases created before migrations line up too.
+export const description = "markets table";
+
+const LATER_COLUMNS = [
+  ["market_ticker", "TEXT"],
+  ["price_yes", "REAL"],
+  ["price_no", "REAL"],
+  ["close_time", "TEXT"],
+];
+
+export const up = (db) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS markets (
+      ticker TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      platform TEXT NOT NULL,
+      last_updated TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS idx_markets_title ON markets(title);
+    CREATE INDEX IF NOT EXISTS idx_markets_platform ON markets(platform);
+  `);
+
+  const existingColumns = db
+    .prepare("PRAGMA table_info(markets)")
+    .all()
+    .map((column) => column.name);
+
+  for (const [name, type] of LATER_COLUMNS) {
+    if (!existingColumns.includes(name)) {
+      db.exec(`ALTER TABLE markets ADD COLUMN ${name} ${type}`);
+    }
+  }
+};
@@ -0,0 +1,14 @@
+export const description = "order book levels";
+
+export const up = (db) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS order_book_levels (
+      market_ticker TEXT NOT NULL,
+      side TEXT NOT NULL,
+      price REAL NOT NULL,
+      size INTEGER NOT NULL,
+      captured_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (market_ticker, side, price)
+    );
+  `);
+};
@@ -0,0 +1,16 @@
+export const description = "price history";
+
+export const up = (db) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS price_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      ticker TEXT NOT NULL,
+      market_ticker TEXT,
+      price_yes REAL,
+      price_no REAL,
+      captured_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_price_history_ticker ON price_history(ticker, captured_at);
+    CREATE INDEX IF NOT EXISTS idx_price_history_market_ticker ON price_history(market_ticker, captured_at);
+  `);
+};
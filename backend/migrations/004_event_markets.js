@@ -0,0 +1,28 @@
+export const description = "event markets and outcomes";
+
+export const up = (db) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS event_markets (
+      market_ticker TEXT PRIMARY KEY,
+      event_ticker TEXT NOT NULL,
+      title TEXT,
+      subtitle TEXT,
+      strike_type TEXT,
+      floor_strike REAL,
+      cap_strike REAL,
+      close_time TEXT,
+      status TEXT,
+      position INTEGER NOT NULL DEFAULT 0,
+      last_updated TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS idx_event_markets_event ON event_markets(event_ticker, position);
+
+    CREATE TABLE IF NOT EXISTS market_outcomes (
+      market_ticker TEXT NOT NULL,
+      outcome TEXT NOT NULL,
+      price REAL,
+      last_updated TEXT DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (market_ticker, outcome)
+    );
+  `);
+};
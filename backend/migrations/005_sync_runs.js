@@ -0,0 +1,27 @@
+export const description = "sync run diffs and stale market tracking";
+
+export const up = (db) => {
+  db.exec(`
+    ALTER TABLE markets ADD COLUMN status TEXT;
+    ALTER TABLE markets ADD COLUMN stale INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE markets ADD COLUMN last_seen_at TEXT;
+    CREATE INDEX IF NOT EXISTS idx_markets_stale ON markets(platform, stale);
+
+    CREATE TABLE IF NOT EXISTS sync_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      platform TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      finished_at TEXT,
+      status TEXT NOT NULL,
+      error TEXT,
+      fetched INTEGER NOT NULL DEFAULT 0,
+      stored INTEGER NOT NULL DEFAULT 0,
+      filtered INTEGER NOT NULL DEFAULT 0,
+      added INTEGER NOT NULL DEFAULT 0,
+      changed INTEGER NOT NULL DEFAULT 0,
+      unchanged INTEGER NOT NULL DEFAULT 0,
+      removed INTEGER NOT NULL DEFAULT 0,
+      diff_json TEXT
+    );
+  `);
+};
@@ -0,0 +1,21 @@
+export const description = "settled market resolutions";
+
+export const up = (db) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS market_resolutions (
+      market_ticker TEXT PRIMARY KEY,
+      event_ticker TEXT,
+      title TEXT,
+      subtitle TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      result TEXT,
+      bracket TEXT,
+      settlement_value REAL,
+      settled_at TEXT,
+      checked_at TEXT,
+      recorded_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS idx_market_resolutions_event ON market_resolutions(event_ticker);
+    CREATE INDEX IF NOT EXISTS idx_market_resolutions_settled ON market_resolutions(settled_at);
+  `);
+};
@@ -0,0 +1,15 @@
+export const description = "market quote and liquidity columns";
+
+// Same units as Kalshi reports them: prices in cents, volume and open interest in contracts,
+// liquidity in cents.
+export const up = (db) => {
+  db.exec(`
+    ALTER TABLE markets ADD COLUMN yes_bid REAL;
+    ALTER TABLE markets ADD COLUMN yes_ask REAL;
+    ALTER TABLE markets ADD COLUMN last_price REAL;
+    ALTER TABLE markets ADD COLUMN volume REAL;
+    ALTER TABLE markets ADD COLUMN volume_24h REAL;
+    ALTER TABLE markets ADD COLUMN open_interest REAL;
+    ALTER TABLE markets ADD COLUMN liquidity REAL;
+  `);
+};
@@ -0,0 +1,9 @@
+export const description = "market open times";
+
+// When trading opens; the hedge roll planner needs it to tell when a later market can take over.
+export const up = (db) => {
+  db.exec(`
+    ALTER TABLE markets ADD COLUMN open_time TEXT;
+    ALTER TABLE event_markets ADD COLUMN open_time TEXT;
+  `);
+};
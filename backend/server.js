@@ -6,7 +6,10 @@ import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { GoogleGenAI } from "@google/genai";
 import { db } from "./db.js";
-import { syncKalshiMarkets } from "./sync.js";
+import { runKalshiSync } from "./sync.js";
+import { geoAdjustment, tagLocations } from "../server/lib/geo.js";
+import { getLatestSyncRun, getSyncRun, listSyncRuns } from "./syncRuns.js";
+import { downsampleHistory, historyMarketTicker, parseHistoryWindow } from "./history.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -154,6 +157,18 @@ const parseOptionalRatio = (value) => {
   return clampOptional(normalized, 0, 1);
 };
 
+const extractAnalysis = (parsed) => {
+  const raw = parsed && typeof parsed === "object" ? parsed.analysis : null;
+  if (!raw || typeof raw !== "object") return null;
+  const text = (value) => (typeof value === "string" && value.trim() ? value.trim() : null);
+  const analysis = {
+    primary_risk_factor: text(raw.primary_risk_factor),
+    is_long: text(raw.is_long),
+    is_short: text(raw.is_short),
+  };
+  return Object.values(analysis).some(Boolean) ? analysis : null;
+};
+
 const extractInputs = (parsed) => {
   if (!parsed || typeof parsed !== "object") return null;
   const raw =
@@ -284,11 +299,7 @@ const runSync = async () => {
   isSyncing = true;
   logSyncStart();
 
-  const kalshiResult = await syncKalshiMarkets(db);
-  console.log(`Fetched ${kalshiResult.fetched} total Kalshi markets`);
-  console.log(
-    `Stored ${kalshiResult.stored} relevant Kalshi markets (filtered out ${kalshiResult.filtered})`,
-  );
+  const { kalshi: kalshiResult, orderBooks, resolutions } = await runKalshiSync(db);
 
   lastSyncTime = new Date().toISOString();
   console.log(`Sync complete: ${kalshiResult.stored} Kalshi markets`);
@@ -299,13 +310,17 @@ const runSync = async () => {
   }
 
   isSyncing = false;
-  return { kalshi: kalshiResult };
+  return { kalshi: kalshiResult, orderBooks, resolutions };
 };
 
 const getCountsByPlatform = () => {
-  const row = db.prepare("SELECT COUNT(*) as count FROM markets WHERE platform = 'kalshi'").get();
-  const kalshi = row?.count ?? 0;
-  return { kalshi, total: kalshi };
+  const row = db
+    .prepare(
+      "SELECT COUNT(*) as count, SUM(stale) as stale FROM markets WHERE platform = 'kalshi'",
+    )
+    .get();
+  const kalshi = (row?.count ?? 0) - (row?.stale ?? 0);
+  return { kalshi, total: kalshi, stale: row?.stale ?? 0 };
 };
 
 const STOPWORDS = new Set([
@@ -435,7 +450,9 @@ let keywordDictionaryList = null;
 let keywordDictionaryBuiltAt = null;
 
 const buildKeywordDictionary = () => {
-  const rows = db.prepare("SELECT title FROM markets WHERE platform = 'kalshi'").all();
+  const rows = db
+    .prepare("SELECT title FROM markets WHERE platform = 'kalshi' AND stale = 0")
+    .all();
   const counts = new Map();
 
   for (const row of rows) {
@@ -613,7 +630,7 @@ const searchMarketsByKeywords = (keywords, limit = 10) => {
 
   const rows = db
     .prepare(
-      "SELECT platform, ticker, title, market_ticker, price_yes FROM markets WHERE platform = 'kalshi'",
+      "SELECT platform, ticker, title, market_ticker, price_yes, price_no, yes_bid, yes_ask, last_price, volume, volume_24h, open_interest, liquidity, close_time, open_time FROM markets WHERE platform = 'kalshi' AND stale = 0",
     )
     .all();
   console.log(`DB rows scanned: ${rows.length}`);
@@ -630,6 +647,31 @@ const searchMarketsByKeywords = (keywords, limit = 10) => {
   return scored.slice(0, Math.max(1, Number(limit))).map(({ score, ...row }) => row);
 };
 
+// Every tradable strike in each event, in Kalshi's listing order, with its YES/NO prices.
+const attachEventStrikes = (markets) => {
+  if (!markets.length) return markets;
+  const eventTickers = markets.map((market) => market.ticker);
+  const rows = db
+    .prepare(
+      `SELECT em.event_ticker, em.market_ticker, em.title, em.subtitle, em.strike_type, em.floor_strike, em.cap_strike, em.close_time, em.open_time,
+        yes.price AS price_yes, no.price AS price_no
+       FROM event_markets em
+       LEFT JOIN market_outcomes yes ON yes.market_ticker = em.market_ticker AND yes.outcome = 'yes'
+       LEFT JOIN market_outcomes no ON no.market_ticker = em.market_ticker AND no.outcome = 'no'
+       WHERE em.event_ticker IN (${eventTickers.map(() => "?").join(", ")})
+       ORDER BY em.event_ticker, em.position`,
+    )
+    .all(...eventTickers);
+
+  const byEvent = new Map();
+  for (const { event_ticker, ...strike } of rows) {
+    if (!byEvent.has(event_ticker)) byEvent.set(event_ticker, []);
+    byEvent.get(event_ticker).push(strike);
+  }
+
+  return markets.map((market) => ({ ...market, strikes: byEvent.get(market.ticker) || [] }));
+};
+
 const sanitizeScores = (raw, allowedTickers, allowedMarketTickers = []) => {
   if (!raw || typeof raw !== "object") return [];
   const items = Array.isArray(raw.scored_markets) ? raw.scored_markets : [];
@@ -681,14 +723,63 @@ const sanitizeScores = (raw, allowedTickers, allowedMarketTickers = []) => {
     .filter(Boolean);
 };
 
+// Gemini is told to penalize geography mismatches but does so unevenly, so the same gazetteer
+// adjustment the frontend ranking uses is applied on top, scaled to the 0-10 score range.
+const applyGeoAdjustment = (scored, markets, description) => {
+  const businessTags = tagLocations(description);
+  const clampScore = (value) => Number(Math.max(0, Math.min(10, value)).toFixed(2));
+
+  return scored.map((item) => {
+    const market = markets.find(
+      (candidate) => candidate.ticker === item.ticker || candidate.market_ticker === item.ticker,
+    );
+    const locations = tagLocations(market?.title || item.title);
+    const adjustment = geoAdjustment(businessTags, locations);
+    if (!adjustment) return { ...item, locations, geo_adjustment: 0 };
+
+    const relevance = clampScore(item.relevance_score + adjustment * 10);
+    return {
+      ...item,
+      relevance_score: relevance,
+      overall_score: clampScore(item.overall_score + (relevance - item.relevance_score) / 3),
+      locations,
+      geo_adjustment: adjustment,
+    };
+  });
+};
+
 app.get("/api/status", (req, res) => {
   res.json({
     lastSyncTime,
     counts: getCountsByPlatform(),
     syncing: isSyncing,
+    lastRun: getLatestSyncRun(db),
   });
 });
 
+app.get("/api/sync/runs", (req, res) => {
+  try {
+    res.json({ runs: listSyncRuns(db, req.query.limit) });
+  } catch (err) {
+    console.error("Error: sync run lookup failed", err?.message || err);
+    res.status(500).json({ error: "sync_runs_failed" });
+  }
+});
+
+app.get("/api/sync/runs/:id", (req, res) => {
+  try {
+    const run = getSyncRun(db, req.params.id);
+    if (!run) {
+      res.status(404).json({ error: "sync_run_not_found" });
+      return;
+    }
+    res.json(run);
+  } catch (err) {
+    console.error("Error: sync run lookup failed", err?.message || err);
+    res.status(500).json({ error: "sync_runs_failed" });
+  }
+});
+
 app.post("/api/sync", async (req, res) => {
   try {
     const result = await runSync();
@@ -727,6 +818,134 @@ app.get("/api/search", (req, res) => {
   }
 });
 
+app.get("/api/markets/:ticker/orderbook", (req, res) => {
+  try {
+    const side = req.query.side === "no" ? "no" : "yes";
+    const marketTicker = req.params.ticker;
+    const levels = db
+      .prepare(
+        "SELECT price, size, captured_at FROM order_book_levels WHERE market_ticker = ? AND side = ? ORDER BY price ASC",
+      )
+      .all(marketTicker, side);
+
+    if (!levels.length) {
+      res.status(404).json({ error: "order_book_not_found" });
+      return;
+    }
+
+    res.json({
+      market_ticker: marketTicker,
+      side,
+      captured_at: levels[0].captured_at,
+      levels: levels.map(({ price, size }) => ({ price, size })),
+    });
+  } catch (err) {
+    console.error("Error: order book lookup failed", err?.message || err);
+    res.status(500).json({ error: "order_book_failed" });
+  }
+});
+
+app.get("/api/markets/:ticker/history", (req, res) => {
+  try {
+    const window = parseHistoryWindow(req.query);
+    if (!window) {
+      res.status(400).json({ error: "invalid_history_range" });
+      return;
+    }
+
+    const marketTicker = historyMarketTicker(db, req.params.ticker);
+    const rows = db
+      .prepare(
+        "SELECT ticker, market_ticker, price_yes, price_no, captured_at FROM price_history WHERE market_ticker = ? AND captured_at >= ? AND captured_at <= ? ORDER BY captured_at ASC",
+      )
+      .all(marketTicker, window.from, window.to);
+
+    if (!rows.length) {
+      res.status(404).json({ error: "history_not_found" });
+      return;
+    }
+
+    const sampled = downsampleHistory(rows, window.points, window.from, window.to);
+    res.json({
+      ticker: rows[rows.length - 1].ticker,
+      market_ticker: rows[rows.length - 1].market_ticker,
+      from: window.from,
+      to: window.to,
+      total: rows.length,
+      downsampled: sampled.length < rows.length,
+      points: sampled.map(({ price_yes, price_no, captured_at }) => ({
+        captured_at,
+        price_yes,
+        price_no,
+      })),
+    });
+  } catch (err) {
+    console.error("Error: price history lookup failed", err?.message || err);
+    res.status(500).json({ error: "history_failed" });
+  }
+});
+
+const RESOLUTION_COLUMNS =
+  "market_ticker, event_ticker, title, subtitle, status, result, bracket, settlement_value, settled_at";
+
+app.get("/api/resolutions", (req, res) => {
+  try {
+    const requested = Number(req.query.limit ?? 50);
+    const limit = Number.isFinite(requested) ? Math.max(1, Math.min(500, Math.floor(requested))) : 50;
+    const since = typeof req.query.since === "string" ? Date.parse(req.query.since) : null;
+    if (since !== null && Number.isNaN(since)) {
+      res.status(400).json({ error: "invalid_since" });
+      return;
+    }
+
+    const includePending = req.query.include_pending === "true";
+    const clauses = [];
+    const params = [];
+    if (!includePending) clauses.push("settled_at IS NOT NULL");
+    if (since !== null) {
+      clauses.push("settled_at >= ?");
+      params.push(new Date(since).toISOString());
+    }
+    if (typeof req.query.event === "string" && req.query.event) {
+      clauses.push("event_ticker = ?");
+      params.push(req.query.event);
+    }
+
+    const rows = db
+      .prepare(
+        `SELECT ${RESOLUTION_COLUMNS} FROM market_resolutions ${
+          clauses.length ? `WHERE ${clauses.join(" AND ")}` : ""
+        } ORDER BY settled_at IS NULL, settled_at DESC, market_ticker LIMIT ?`,
+      )
+      .all(...params, limit);
+    res.json({ resolutions: rows });
+  } catch (err) {
+    console.error("Error: resolution lookup failed", err?.message || err);
+    res.status(500).json({ error: "resolutions_failed" });
+  }
+});
+
+// Accepts a market ticker or an event ticker; an event returns every strike it had.
+app.get("/api/markets/:ticker/resolution", (req, res) => {
+  try {
+    const ticker = req.params.ticker;
+    const rows = db
+      .prepare(
+        `SELECT ${RESOLUTION_COLUMNS} FROM market_resolutions WHERE market_ticker = ? OR event_ticker = ? ORDER BY market_ticker`,
+      )
+      .all(ticker, ticker);
+
+    if (!rows.length) {
+      res.status(404).json({ error: "resolution_not_found" });
+      return;
+    }
+    res.json({ ticker, resolutions: rows });
+  } catch (err) {
+    console.error("Error: resolution lookup failed", err?.message || err);
+    res.status(500).json({ error: "resolutions_failed" });
+  }
+});
+
 app.post("/api/score-markets", async (req, res) => {
   try {
     const description =
@@ -769,6 +988,7 @@ app.post("/api/score-markets", async (req, res) => {
     );
     const keywords = normalizeGeminiKeywords(geminiKeywords);
     const inputs = parseInputsFromDescription(description);
+    const analysis = extractAnalysis(keywordParsed);
 
     if (!keywords.length) {
       console.warn("Gemini keyword output invalid, falling back to dictionary match.");
@@ -784,7 +1004,7 @@ app.post("/api/score-markets", async (req, res) => {
     }
 
     if (!finalKeywords.length) {
-      res.json({ keywords: [], markets: [], scored_markets: [], inputs });
+      res.json({ keywords: [], markets: [], scored_markets: [], inputs, analysis });
       return;
     }
 
@@ -793,7 +1013,7 @@ app.post("/api/score-markets", async (req, res) => {
       `DB matches (top ${markets.length}): ${markets.map((market) => market.ticker).join(", ")}`,
     );
     if (!markets.length) {
-      res.json({ keywords: finalKeywords, markets: [], scored_markets: [], inputs });
+      res.json({ keywords: finalKeywords, markets: [], scored_markets: [], inputs, analysis });
       return;
     }
 
@@ -812,17 +1032,22 @@ app.post("/api/score-markets", async (req, res) => {
     }
 
     const scoreParsed = parseGeminiJson(scoreText);
-    const scored = sanitizeScores(
-      scoreParsed,
-      markets.map((market) => market.ticker),
-      markets.map((market) => market.market_ticker).filter(Boolean),
+    const scored = applyGeoAdjustment(
+      sanitizeScores(
+        scoreParsed,
+        markets.map((market) => market.ticker),
+        markets.map((market) => market.market_ticker).filter(Boolean),
+      ),
+      markets,
+      description,
     );
 
     res.json({
       keywords: finalKeywords,
-      markets,
+      markets: attachEventStrikes(markets),
       scored_markets: scored,
       inputs,
+      analysis,
     });
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
@@ -1,9 +1,17 @@
-const KALSHI_EVENTS_URL = "https://api.elections.kalshi.com/trade-api/v2/events";
+import { kalshiFetch } from "../server/lib/kalshiTransport.js";
+
+const KALSHI_BASE_URL = process.env.KALSHI_BASE_URL || "https://api.elections.kalshi.com";
+const KALSHI_EVENTS_URL = `${KALSHI_BASE_URL}/trade-api/v2/events`;
+const KALSHI_MARKETS_URL = `${KALSHI_BASE_URL}/trade-api/v2/markets`;
 
 const EVENTS_PAGE_LIMIT = Number(process.env.KALSHI_EVENTS_LIMIT || 200);
 const REQUESTS_PER_SECOND = Number(process.env.KALSHI_RPS || 5);
 const MAX_RETRIES = Number(process.env.KALSHI_MAX_RETRIES || 3);
 const BACKOFF_MS = Number(process.env.KALSHI_BACKOFF_MS || 1000);
+const SYNC_ORDER_BOOKS = process.env.KALSHI_SYNC_ORDER_BOOKS !== "false";
+const ORDER_BOOK_LIMIT = Number(process.env.KALSHI_ORDER_BOOK_LIMIT || 100);
+const ORDER_BOOK_DEPTH = Number(process.env.KALSHI_ORDER_BOOK_DEPTH || 20);
+const RESOLUTION_LIMIT = Number(process.env.KALSHI_RESOLUTION_LIMIT || 100);
 
 const TWO_DAYS_MS = 2 * 24 * 60 * 60 * 1000;
 const ONE_YEAR_MS = 365 * 24 * 60 * 60 * 1000;
@@ -68,7 +76,7 @@ const fetchWithTimeout = async (url, timeoutMs = 15000) => {
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), timeoutMs);
   try {
-    const response = await fetch(url, { signal: controller.signal });
+    const response = await kalshiFetch(url, { signal: controller.signal });
     return response;
   } finally {
     clearTimeout(timeout);
@@ -151,6 +159,57 @@ const extractYesPrice = (market) => {
   return null;
 };
 
+const extractNoPrice = (market) => {
+  const price =
+    market?.no_ask ??
+    market?.noAsk ??
+    market?.no_price ??
+    market?.noPrice ??
+    market?.best_no ??
+    market?.best_no_price;
+  if (typeof price === "number" && Number.isFinite(price)) return price;
+  return null;
+};
+
+const toFiniteNumber = (value) => {
+  const num = typeof value === "string" && value.trim() ? Number(value) : value;
+  return typeof num === "number" && Number.isFinite(num) ? num : null;
+};
+
+// Newer Kalshi payloads send "_dollars" strings next to (or instead of) the cent fields.
+const toCents = (market, field) => {
+  const cents = toFiniteNumber(market?.[field]);
+  if (cents !== null) return cents;
+  const dollars = toFiniteNumber(market?.[`${field}_dollars`]);
+  return dollars !== null ? Number((dollars * 100).toFixed(4)) : null;
+};
+
+const QUOTE_FIELDS = ["yes_bid", "yes_ask", "last_price", "volume", "volume_24h", "open_interest", "liquidity"];
+
+const extractQuote = (market) => ({
+  yes_bid: toCents(market, "yes_bid"),
+  yes_ask: toCents(market, "yes_ask"),
+  last_price: toCents(market, "last_price"),
+  volume: toFiniteNumber(market?.volume ?? market?.volume_fp),
+  volume_24h: toFiniteNumber(market?.volume_24h ?? market?.volume_24h_fp),
+  open_interest: toFiniteNumber(market?.open_interest ?? market?.open_interest_fp),
+  liquidity: toCents(market, "liquidity"),
+});
+
+const extractStrike = (market) => {
+  const floor = toFiniteNumber(market?.floor_strike ?? market?.floorStrike);
+  const cap = toFiniteNumber(market?.cap_strike ?? market?.capStrike);
+  const strikeType = market?.strike_type || market?.strikeType || null;
+  const subtitle =
+    market?.yes_sub_title || market?.subtitle || market?.sub_title || market?.yesSubTitle || null;
+  return {
+    subtitle,
+    strike_type: strikeType,
+    floor_strike: floor,
+    cap_strike: cap,
+  };
+};
+
 const extractKalshiCursor = (payload) => {
   if (typeof payload?.cursor === "string" && payload.cursor) return payload.cursor;
   if (typeof payload?.next_cursor === "string" && payload.next_cursor) return payload.next_cursor;
@@ -158,6 +217,14 @@ const extractKalshiCursor = (payload) => {
   return null;
 };
 
+// Open markets this close to their close time are dropped from the feed.
+const closesWithinWindow = (market, now = Date.now()) => {
+  const closeTimeMs = parseCloseTime(
+    market?.close_time || market?.closeTime || market?.close_ts || market?.closeTimestamp,
+  );
+  return Boolean(closeTimeMs) && closeTimeMs - now < TWO_DAYS_MS;
+};
+
 const shouldKeepKalshiMarket = (market, overrides = {}) => {
   const status = normalizeStatus(
     market?.status || market?.market_status || market?.state || overrides.status,
@@ -179,10 +246,7 @@ const shouldKeepKalshiMarket = (market, overrides = {}) => {
   if (tags.some((tag) => KALSHI_EXCLUDE_TAGS.has(tag))) return false;
 
   const now = Date.now();
-  const closeTimeMs = parseCloseTime(
-    market?.close_time || market?.closeTime || market?.close_ts || market?.closeTimestamp,
-  );
-  if (status === "open" && closeTimeMs && closeTimeMs - now < TWO_DAYS_MS) return false;
+  if (status === "open" && closesWithinWindow(market, now)) return false;
 
   if (status === "unopened") {
     const openTimeMs = parseCloseTime(
@@ -196,7 +260,8 @@ const shouldKeepKalshiMarket = (market, overrides = {}) => {
   return true;
 };
 
-const syncCategory = async (category, insertMany) => {
+// `closing` collects events left with no markets once those about to close were dropped.
+const syncCategory = async (category, insertMany, closing) => {
   let fetched = 0;
   let stored = 0;
   let filtered = 0;
@@ -231,9 +296,8 @@ const syncCategory = async (category, insertMany) => {
       }
       seenEvents.add(eventTicker);
 
-      let keepEvent = false;
-      let selectedMarketTicker = null;
-      let selectedYesPrice = null;
+      const keptMarkets = [];
+      let closingSoon = false;
       for (const market of markets) {
         const status = normalizeStatus(market?.status || market?.market_status || market?.state);
         const mergedTags = Array.from(
@@ -248,22 +312,47 @@ const syncCategory = async (category, insertMany) => {
           })
         ) {
           filtered += 1;
+          if (status === "open" && closesWithinWindow(market)) closingSoon = true;
           continue;
         }
 
-        keepEvent = true;
-        selectedMarketTicker =
-          market?.ticker || market?.market_ticker || market?.id || selectedMarketTicker;
-        selectedYesPrice = extractYesPrice(market) ?? selectedYesPrice;
-        break;
+        const marketTicker = market?.ticker || market?.market_ticker || market?.id || null;
+        if (!marketTicker) continue;
+        const closeTimeMs = parseCloseTime(
+          market?.close_time || market?.closeTime || market?.close_ts || market?.closeTimestamp,
+        );
+        const openTimeMs = parseCloseTime(
+          market?.open_time || market?.openTime || market?.open_ts || market?.openTimestamp,
+        );
+        keptMarkets.push({
+          market_ticker: marketTicker,
+          title: market?.title || eventTitle,
+          status,
+          ...extractStrike(market),
+          ...extractQuote(market),
+          price_yes: extractYesPrice(market),
+          price_no: extractNoPrice(market),
+          close_time: closeTimeMs ? new Date(closeTimeMs).toISOString() : null,
+          open_time: openTimeMs ? new Date(openTimeMs).toISOString() : null,
+        });
       }
 
-      if (keepEvent) {
+      // The event row still points at its first tradable market; the whole ladder goes to
+      // event_markets so the UI can pick a strike.
+      const primary = keptMarkets[0];
+      if (!primary && closingSoon) closing.add(eventTicker);
+      if (primary) {
         rows.push({
           ticker: eventTicker,
           title: eventTitle,
-          market_ticker: selectedMarketTicker,
-          price_yes: selectedYesPrice,
+          market_ticker: primary.market_ticker,
+          price_yes: primary.price_yes,
+          price_no: primary.price_no,
+          ...Object.fromEntries(QUOTE_FIELDS.map((field) => [field, primary[field]])),
+          close_time: primary.close_time,
+          open_time: primary.open_time,
+          status: primary.status,
+          markets: keptMarkets,
         });
       }
     }
@@ -285,23 +374,197 @@ const syncCategory = async (category, insertMany) => {
   return { fetched, stored, filtered };
 };
 
+const DIFF_FIELDS = [
+  "title",
+  "market_ticker",
+  "price_yes",
+  "price_no",
+  "close_time",
+  "open_time",
+  "status",
+];
+const DIFF_LIST_LIMIT = 200;
+
+const diffMarketRow = (before, after) =>
+  DIFF_FIELDS.filter((field) => (before[field] ?? null) !== (after[field] ?? null)).map((field) => ({
+    field,
+    before: before[field] ?? null,
+    after: after[field] ?? null,
+  }));
+
+// Rows not seen in a complete run have left the feed: past their close time they are "closed",
+// dropped for closing within the window they are "closing", otherwise "removed". Either way they
+// stay in the table, flagged stale, so history keeps its titles.
+const markStaleMarkets = (db, existing, seen, closing, runAt) => {
+  const markStale = db.prepare(
+    "UPDATE markets SET stale = 1, status = ?, last_updated = CURRENT_TIMESTAMP WHERE ticker = ?",
+  );
+  const removed = [];
+  db.transaction(() => {
+    for (const row of existing.values()) {
+      if (seen.has(row.ticker) || row.stale) continue;
+      const closeTimeMs = parseCloseTime(row.close_time);
+      const status =
+        closeTimeMs && closeTimeMs <= Date.parse(runAt)
+          ? "closed"
+          : closing.has(row.ticker)
+            ? "closing"
+            : "removed";
+      markStale.run(status, row.ticker);
+      removed.push({ ticker: row.ticker, title: row.title, status });
+    }
+  })();
+  return removed;
+};
+
+const recordSyncRun = (db, run) => {
+  const limit = (items) => items.slice(0, DIFF_LIST_LIMIT);
+  const result = db
+    .prepare(
+      "INSERT INTO sync_runs (platform, started_at, finished_at, status, error, fetched, stored, filtered, added, changed, unchanged, removed, diff_json) VALUES ('kalshi', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+    )
+    .run(
+      run.started_at,
+      new Date().toISOString(),
+      run.status,
+      run.error,
+      run.fetched,
+      run.stored,
+      run.filtered,
+      run.added.length,
+      run.changed.length,
+      run.unchanged,
+      run.removed.length,
+      JSON.stringify({
+        added: limit(run.added),
+        changed: limit(run.changed),
+        removed: limit(run.removed),
+        truncated: [run.added, run.changed, run.removed].some((items) => items.length > DIFF_LIST_LIMIT),
+      }),
+    );
+  return Number(result.lastInsertRowid);
+};
+
 export const syncKalshiMarkets = async (db) => {
   let fetched = 0;
   let stored = 0;
   let filtered = 0;
+  let unchanged = 0;
+  const startedAt = new Date().toISOString();
+  const added = [];
+  const changed = [];
+  const seen = new Set();
+  const existing = new Map(
+    db
+      .prepare(
+        `SELECT ticker, ${DIFF_FIELDS.join(", ")}, stale FROM markets WHERE platform = 'kalshi'`,
+      )
+      .all()
+      .map((row) => [row.ticker, row]),
+  );
 
   const insert = db.prepare(
-    "INSERT OR REPLACE INTO markets (ticker, title, platform, market_ticker, price_yes, last_updated) VALUES (?, ?, 'kalshi', ?, ?, CURRENT_TIMESTAMP)",
+    `INSERT OR REPLACE INTO markets (ticker, title, platform, market_ticker, price_yes, price_no, ${QUOTE_FIELDS.join(", ")}, close_time, open_time, status, stale, last_seen_at, last_updated) VALUES (?, ?, 'kalshi', ?, ?, ?, ${QUOTE_FIELDS.map(() => "?").join(", ")}, ?, ?, ?, 0, ?, CURRENT_TIMESTAMP)`,
+  );
+  // Quotes and volume move every run; they are refreshed without counting the row as changed.
+  const touch = db.prepare(
+    `UPDATE markets SET ${QUOTE_FIELDS.map((field) => `${field} = ?`).join(", ")}, last_seen_at = ? WHERE ticker = ?`,
+  );
+  // markets keeps only the latest quote; every run also appends each strike's quote to
+  // price_history under one timestamp so a sync reads as a single point in each series.
+  const capturedAt = new Date().toISOString();
+  const insertHistory = db.prepare(
+    "INSERT INTO price_history (ticker, market_ticker, price_yes, price_no, captured_at) VALUES (?, ?, ?, ?, ?)",
+  );
+  const clearOutcomes = db.prepare(
+    "DELETE FROM market_outcomes WHERE market_ticker IN (SELECT market_ticker FROM event_markets WHERE event_ticker = ?)",
+  );
+  const clearEventMarkets = db.prepare("DELETE FROM event_markets WHERE event_ticker = ?");
+  // Strikes that drop out of a live event's ladder have usually closed; keep them queued for
+  // the resolution sync before the ladder is rewritten.
+  const queueDroppedStrikes = db.prepare(
+    "INSERT OR IGNORE INTO market_resolutions (market_ticker, event_ticker, title, subtitle, status) SELECT market_ticker, event_ticker, title, subtitle, 'pending' FROM event_markets WHERE event_ticker = ? AND market_ticker NOT IN (SELECT value FROM json_each(?))",
+  );
+  const insertEventMarket = db.prepare(
+    "INSERT OR REPLACE INTO event_markets (market_ticker, event_ticker, title, subtitle, strike_type, floor_strike, cap_strike, close_time, open_time, status, position, last_updated) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)",
+  );
+  const insertOutcome = db.prepare(
+    "INSERT OR REPLACE INTO market_outcomes (market_ticker, outcome, price, last_updated) VALUES (?, ?, ?, CURRENT_TIMESTAMP)",
   );
   const insertMany = db.transaction((rows) => {
     for (const row of rows) {
-      insert.run(row.ticker, row.title, row.market_ticker ?? null, row.price_yes ?? null);
+      queueDroppedStrikes.run(
+        row.ticker,
+        JSON.stringify((row.markets || []).map((market) => market.market_ticker)),
+      );
+      clearOutcomes.run(row.ticker);
+      clearEventMarkets.run(row.ticker);
+      (row.markets || []).forEach((market, position) => {
+        insertEventMarket.run(
+          market.market_ticker,
+          row.ticker,
+          market.title,
+          market.subtitle,
+          market.strike_type,
+          market.floor_strike,
+          market.cap_strike,
+          market.close_time,
+          market.open_time,
+          market.status,
+          position,
+        );
+        insertOutcome.run(market.market_ticker, "yes", market.price_yes);
+        insertOutcome.run(market.market_ticker, "no", market.price_no);
+        if (market.price_yes == null && market.price_no == null) return;
+        insertHistory.run(
+          row.ticker,
+          market.market_ticker,
+          market.price_yes ?? null,
+          market.price_no ?? null,
+          capturedAt,
+        );
+      });
+
+      const before = existing.get(row.ticker);
+      const changes = before ? diffMarketRow(before, row) : [];
+      if (!seen.has(row.ticker)) {
+        seen.add(row.ticker);
+        if (!before) added.push({ ticker: row.ticker, title: row.title });
+        else if (changes.length || before.stale) {
+          changed.push({
+            ticker: row.ticker,
+            title: row.title,
+            changes: before.stale
+              ? [...changes, { field: "stale", before: true, after: false }]
+              : changes,
+          });
+        } else unchanged += 1;
+      }
+
+      if (before && !changes.length && !before.stale) {
+        touch.run(...QUOTE_FIELDS.map((field) => row[field] ?? null), capturedAt, row.ticker);
+      } else {
+        insert.run(
+          row.ticker,
+          row.title,
+          row.market_ticker ?? null,
+          row.price_yes ?? null,
+          row.price_no ?? null,
+          ...QUOTE_FIELDS.map((field) => row[field] ?? null),
+          row.close_time ?? null,
+          row.open_time ?? null,
+          row.status ?? null,
+          capturedAt,
+        );
+      }
     }
   });
 
+  const closing = new Set();
+  let error = null;
   try {
     const results = await Promise.all(
-      KALSHI_CATEGORIES.map((category) => syncCategory(category, insertMany)),
+      KALSHI_CATEGORIES.map((category) => syncCategory(category, insertMany, closing)),
     );
 
     for (const result of results) {
@@ -310,8 +573,251 @@ export const syncKalshiMarkets = async (db) => {
       filtered += result.filtered;
     }
   } catch (err) {
-    console.error("Error: Kalshi sync failed", err?.message || err);
+    error = err?.message || String(err);
+    console.error("Error: Kalshi sync failed", error);
   }
 
-  return { fetched, stored, filtered };
+  // A failed run only saw part of the feed, so nothing is marked stale from it.
+  const removed = error ? [] : markStaleMarkets(db, existing, seen, closing, startedAt);
+  const runId = recordSyncRun(db, {
+    started_at: startedAt,
+    status: error ? "failed" : "ok",
+    error,
+    fetched,
+    stored,
+    filtered,
+    added,
+    changed,
+    unchanged,
+    removed,
+  });
+
+  return {
+    runId,
+    fetched,
+    stored,
+    filtered,
+    added: added.length,
+    changed: changed.length,
+    unchanged,
+    removed: removed.length,
+    error,
+  };
+};
+
+const SETTLED_STATUSES = new Set(["settled", "finalized", "determined"]);
+
+const normalizeResult = (value) => {
+  const result = normalizeText(value).trim();
+  if (result === "yes" || result === "all_yes") return "yes";
+  if (result === "no" || result === "all_no") return "no";
+  if (result === "void" || result === "voided") return "void";
+  return null;
+};
+
+export const parseKalshiResolution = (payload) => {
+  const market = payload?.market || payload || {};
+  const status = normalizeText(market?.status).trim() || null;
+  const result = normalizeResult(market?.result);
+  const dollars = toFiniteNumber(market?.settlement_value_dollars);
+  const cents = toFiniteNumber(market?.settlement_value);
+  const settlementValue = dollars ?? (cents !== null ? cents / 100 : null);
+  const settledMs = parseCloseTime(
+    market?.settlement_ts || market?.settled_time || market?.expiration_time || market?.close_time,
+  );
+
+  return {
+    status,
+    result,
+    settlement_value: settlementValue ?? (result === "yes" ? 1 : result === "no" ? 0 : null),
+    settled_at: result && settledMs ? new Date(settledMs).toISOString() : null,
+    settled: Boolean(result) && (!status || SETTLED_STATUSES.has(status) || status === "closed"),
+  };
+};
+
+// Kalshi's subtitle when there is one, otherwise a label built from the strike bounds.
+const strikeBracket = (strike) => {
+  if (!strike) return null;
+  if (strike.subtitle) return strike.subtitle;
+  const floor = toFiniteNumber(strike.floor_strike);
+  const cap = toFiniteNumber(strike.cap_strike);
+  if (floor !== null && cap !== null) return `${floor} to ${cap}`;
+  if (floor !== null && strike.strike_type !== "less") return `Above ${floor}`;
+  if (cap !== null) return `Below ${cap}`;
+  return null;
+};
+
+// Closed strikes, stale events and anything already queued are looked up one by one until
+// Kalshi publishes a result; settled rows are never fetched again.
+export const syncKalshiResolutions = async (db) => {
+  let checked = 0;
+  let settled = 0;
+  let failed = 0;
+  const now = new Date().toISOString();
+
+  db.prepare(
+    `INSERT OR IGNORE INTO market_resolutions (market_ticker, event_ticker, title, subtitle, status)
+     SELECT em.market_ticker, em.event_ticker, em.title, em.subtitle, 'pending'
+     FROM event_markets em
+     LEFT JOIN markets m ON m.ticker = em.event_ticker
+     WHERE em.close_time <= ? OR m.stale = 1`,
+  ).run(now);
+  db.prepare(
+    `INSERT OR IGNORE INTO market_resolutions (market_ticker, event_ticker, title, status)
+     SELECT market_ticker, ticker, title, 'pending' FROM markets
+     WHERE platform = 'kalshi' AND market_ticker IS NOT NULL AND (stale = 1 OR close_time <= ?)`,
+  ).run(now);
+
+  const pending = db
+    .prepare(
+      "SELECT market_ticker, event_ticker FROM market_resolutions WHERE settled_at IS NULL ORDER BY checked_at IS NOT NULL, checked_at ASC LIMIT ?",
+    )
+    .all(RESOLUTION_LIMIT);
+
+  const update = db.prepare(
+    "UPDATE market_resolutions SET status = ?, result = ?, bracket = ?, settlement_value = ?, settled_at = ?, checked_at = ? WHERE market_ticker = ?",
+  );
+  const markChecked = db.prepare(
+    "UPDATE market_resolutions SET checked_at = ? WHERE market_ticker = ?",
+  );
+  const bracketFor = db.prepare(
+    `SELECT r.subtitle, em.strike_type, em.floor_strike, em.cap_strike, (
+       SELECT COUNT(*) FROM (
+         SELECT market_ticker FROM event_markets WHERE event_ticker = r.event_ticker
+         UNION SELECT market_ticker FROM market_resolutions WHERE event_ticker = r.event_ticker
+       )
+     ) AS strikes
+     FROM market_resolutions r
+     LEFT JOIN event_markets em ON em.market_ticker = r.market_ticker
+     WHERE r.market_ticker = ?`,
+  );
+
+  for (const { market_ticker: marketTicker } of pending) {
+    try {
+      const payload = await fetchJson(`${KALSHI_MARKETS_URL}/${encodeURIComponent(marketTicker)}`);
+      checked += 1;
+      const resolution = parseKalshiResolution(payload);
+      // In a multi-strike event the winning strike names the bracket that hit.
+      const row = bracketFor.get(marketTicker);
+      const bracket =
+        resolution.result === "yes" && row?.strikes > 1
+          ? strikeBracket(row) ?? strikeBracket(extractStrike(payload?.market))
+          : null;
+      update.run(
+        resolution.settled ? "settled" : resolution.status || "pending",
+        resolution.settled ? resolution.result : null,
+        resolution.settled ? bracket : null,
+        resolution.settled ? resolution.settlement_value : null,
+        resolution.settled ? resolution.settled_at || now : null,
+        now,
+        marketTicker,
+      );
+      if (resolution.settled) settled += 1;
+    } catch (err) {
+      failed += 1;
+      markChecked.run(now, marketTicker);
+      console.warn(`Kalshi resolution fetch failed for ${marketTicker}:`, err?.message || err);
+    }
+  }
+
+  return { pending: pending.length, checked, settled, failed };
+};
+
+// `<side>_dollars` levels are priced in dollars, the plain `<side>` arrays always in cents.
+const parseOrderBookSide = (payload, side) => {
+  const book = payload?.orderbook || payload?.order_book || payload || {};
+  const dollars = book?.[`${side}_dollars`];
+  const inDollars = Array.isArray(dollars);
+  const raw = inDollars ? dollars : book?.[side];
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .map((level) => {
+      const price = Array.isArray(level) ? Number(level[0]) : Number(level?.price);
+      const size = Array.isArray(level) ? Number(level[1]) : Number(level?.quantity ?? level?.size);
+      if (!Number.isFinite(price) || !Number.isFinite(size) || size <= 0) return null;
+      return { price: inDollars ? price : price / 100, size: Math.floor(size) };
+    })
+    .filter(Boolean);
+};
+
+// Kalshi only publishes bids; a NO bid at p is a YES ask at 1 - p (and vice versa).
+const toAskLevels = (oppositeBids) =>
+  oppositeBids
+    .map((level) => ({ price: Number((1 - level.price).toFixed(4)), size: level.size }))
+    .filter((level) => level.price > 0 && level.price < 1)
+    .sort((a, b) => a.price - b.price)
+    .slice(0, ORDER_BOOK_DEPTH);
+
+export const syncKalshiOrderBooks = async (db) => {
+  if (!SYNC_ORDER_BOOKS) return { fetched: 0, stored: 0, failed: 0 };
+
+  let fetched = 0;
+  let stored = 0;
+  let failed = 0;
+
+  // Every strike of each live event, so switching strikes in Results still walks a real book;
+  // events without stored strikes fall back to their primary market. The limit counts strikes.
+  const tickers = db
+    .prepare(
+      `SELECT COALESCE(em.market_ticker, m.market_ticker) AS market_ticker
+       FROM markets m
+       LEFT JOIN event_markets em ON em.event_ticker = m.ticker
+       WHERE m.platform = 'kalshi' AND m.stale = 0 AND COALESCE(em.market_ticker, m.market_ticker) IS NOT NULL
+       ORDER BY m.last_seen_at DESC, m.last_updated DESC, em.position
+       LIMIT ?`,
+    )
+    .all(ORDER_BOOK_LIMIT)
+    .map((row) => row.market_ticker);
+
+  const clear = db.prepare("DELETE FROM order_book_levels WHERE market_ticker = ?");
+  const insert = db.prepare(
+    "INSERT OR REPLACE INTO order_book_levels (market_ticker, side, price, size, captured_at) VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)",
+  );
+  const replaceBook = db.transaction((marketTicker, levelsBySide) => {
+    clear.run(marketTicker);
+    for (const [side, levels] of Object.entries(levelsBySide)) {
+      for (const level of levels) {
+        insert.run(marketTicker, side, level.price, level.size);
+      }
+    }
+  });
+
+  for (const marketTicker of tickers) {
+    try {
+      const payload = await fetchJson(
+        `${KALSHI_MARKETS_URL}/${encodeURIComponent(marketTicker)}/orderbook`,
+      );
+      fetched += 1;
+      const yesBids = parseOrderBookSide(payload, "yes");
+      const noBids = parseOrderBookSide(payload, "no");
+      replaceBook(marketTicker, { yes: toAskLevels(noBids), no: toAskLevels(yesBids) });
+      stored += 1;
+    } catch (err) {
+      failed += 1;
+      console.warn(`Kalshi order book fetch failed for ${marketTicker}:`, err?.message || err);
+    }
+  }
+
+  return { fetched, stored, failed };
+};
+
+// One full pass: markets and their diff, then order books, then resolutions.
+export const runKalshiSync = async (db) => {
+  const kalshi = await syncKalshiMarkets(db);
+  console.log(`Fetched ${kalshi.fetched} total Kalshi markets`);
+  console.log(`Stored ${kalshi.stored} relevant Kalshi markets (filtered out ${kalshi.filtered})`);
+  console.log(
+    `Sync diff: ${kalshi.added} new, ${kalshi.changed} changed, ${kalshi.unchanged} unchanged, ${kalshi.removed} closed, closing or removed`,
+  );
+
+  const orderBooks = await syncKalshiOrderBooks(db);
+  console.log(`Stored ${orderBooks.stored} Kalshi order books (failed ${orderBooks.failed})`);
+
+  const resolutions = await syncKalshiResolutions(db);
+  console.log(
+    `Checked ${resolutions.checked} Kalshi resolutions (${resolutions.settled} settled, failed ${resolutions.failed})`,
+  );
+
+  return { kalshi, orderBooks, resolutions };
 };
@@ -0,0 +1,34 @@
+// Read side of the sync_runs table written by syncKalshiMarkets; backs /api/status and
+// /api/sync/runs.
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+export const toSyncRun = (row, { withDiff = false } = {}) => {
+  const { diff_json, ...run } = row;
+  if (!withDiff) return run;
+  let diff = null;
+  try {
+    diff = diff_json ? JSON.parse(diff_json) : null;
+  } catch {
+    diff = null;
+  }
+  return { ...run, diff };
+};
+
+export const listSyncRuns = (db, requestedLimit = DEFAULT_LIMIT) => {
+  const requested = Number(requestedLimit ?? DEFAULT_LIMIT);
+  const limit = Number.isFinite(requested)
+    ? Math.max(1, Math.min(MAX_LIMIT, Math.floor(requested)))
+    : DEFAULT_LIMIT;
+  return db
+    .prepare("SELECT * FROM sync_runs ORDER BY id DESC LIMIT ?")
+    .all(limit)
+    .map((row) => toSyncRun(row));
+};
+
+export const getSyncRun = (db, id) => {
+  const row = db.prepare("SELECT * FROM sync_runs WHERE id = ?").get(Number(id));
+  return row ? toSyncRun(row, { withDiff: true }) : null;
+};
+
+export const getLatestSyncRun = (db) => listSyncRuns(db, 1)[0] ?? null;
@@ -17,6 +17,7 @@ import {
   selectSeriesByTags,
 } from "./lib/kalshiService.js";
 import { KALSHI_CATEGORY_PLANS } from "./lib/kalshiMapping.js";
+import { fetchPolymarketMarketsForCategories } from "./lib/polymarketService.js";
 
 const MODEL = process.env.GEMINI_MODEL || "gemini-3-flash-preview";
 const PORT = Number(process.env.GEMINI_PROXY_PORT || process.env.PORT || 3001);
@@ -596,6 +597,49 @@ const server = http.createServer(async (req, res) => {
       return;
     }
 
+    if (req.url === "/api/markets/polymarket") {
+      const categories = Array.isArray(body.categories)
+        ? body.categories.filter((item) => typeof item === "string")
+        : [];
+
+      try {
+        const result = await fetchPolymarketMarketsForCategories(categories);
+        sendJson(
+          res,
+          200,
+          {
+            markets: result.markets,
+            meta: {
+              provider: "polymarket",
+              fetchedMarkets: result.markets.length,
+              ...result.meta,
+            },
+          },
+          origin,
+        );
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "polymarket_error";
+        sendJson(
+          res,
+          200,
+          {
+            markets: [],
+            meta: {
+              provider: "polymarket",
+              fetchedMarkets: 0,
+              eventsFetched: 0,
+              marketsTotal: 0,
+              rateLimited: false,
+              partial: false,
+              error: message,
+            },
+          },
+          origin,
+        );
+      }
+      return;
+    }
+
     if (req.url === "/api/markets/kalshi/by-tags") {
       const tags = Array.isArray(body.tags)
         ? body.tags.map((item) => (typeof item === "string" ? item.trim() : "")).filter(Boolean)
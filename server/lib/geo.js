@@ -0,0 +1,127 @@
+import gazetteer from "./gazetteer.json" with { type: "json" };
+
+// Location tagging against server/lib/gazetteer.json. This is the only matcher: the backend
+// scorer imports it directly and src/lib/pipeline/geoTagging.ts re-exports it with types, so it
+// must stay free of Node-only imports.
+export const GEO_ADJUSTMENTS = {
+  city: 0.15,
+  state: 0.1,
+  region: 0.05,
+  neighbor: -0.05,
+  mismatch: -0.2,
+};
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const wordPattern = (text) =>
+  `(?<![A-Za-z])${escapeRegex(text).replace(/\s+/g, "\\s+")}(?![A-Za-z])`;
+
+const buildEntries = () => {
+  const regionOfState = new Map(gazetteer.states.map((state) => [state.code, state.region]));
+  const entries = [];
+  const add = (tag, aliases = [], abbreviations = [], otherMeanings = []) => {
+    // A bare name like "Georgia" is skipped when the text points at its other meaning.
+    const skipWhen = otherMeanings.length
+      ? new RegExp(otherMeanings.map((text) => wordPattern(text)).join("|"), "i")
+      : null;
+    entries.push({ text: tag.name, caseSensitive: false, skipWhen, tag });
+    for (const alias of aliases) entries.push({ text: alias, caseSensitive: false, skipWhen: null, tag });
+    for (const abbreviation of abbreviations) {
+      entries.push({ text: abbreviation, caseSensitive: true, skipWhen: null, tag });
+    }
+  };
+
+  for (const city of gazetteer.cities) {
+    const tag = {
+      scope: "city",
+      name: city.name,
+      state: city.state,
+      region: city.region ?? regionOfState.get(city.state) ?? null,
+    };
+    add(tag, city.aliases, city.abbreviations);
+  }
+  for (const state of gazetteer.states) {
+    add(
+      { scope: "state", name: state.name, state: state.code, region: state.region },
+      state.aliases,
+      [],
+      state.otherMeanings,
+    );
+  }
+  for (const [id, region] of Object.entries(gazetteer.regions)) {
+    add({ scope: "region", name: region.label, state: null, region: id }, region.aliases);
+  }
+  add(
+    { scope: "national", name: gazetteer.national.name, state: null, region: null },
+    gazetteer.national.aliases,
+    gazetteer.national.abbreviations,
+  );
+  add(
+    { scope: "global", name: gazetteer.global.name, state: null, region: null },
+    gazetteer.global.aliases,
+    gazetteer.global.abbreviations,
+  );
+
+  // Longest first so "New York City" wins over "New York" and "Kansas City" over "Kansas".
+  return entries
+    .sort((a, b) => b.text.length - a.text.length)
+    .map((entry) => ({
+      ...entry,
+      pattern: new RegExp(wordPattern(entry.text), entry.caseSensitive ? "g" : "gi"),
+    }));
+};
+
+const ENTRIES = buildEntries();
+
+export const tagLocations = (text) => {
+  if (typeof text !== "string" || !text) return [];
+  const hits = [];
+  let remaining = text;
+  for (const entry of ENTRIES) {
+    if (entry.skipWhen?.test(text)) continue;
+    remaining = remaining.replace(entry.pattern, (match, offset) => {
+      hits.push({ tag: entry.tag, index: offset });
+      return " ".repeat(match.length);
+    });
+  }
+
+  const seen = new Set();
+  return hits
+    .sort((a, b) => a.index - b.index)
+    .map((hit) => hit.tag)
+    .filter((tag) => {
+      const key = `${tag.scope}:${tag.name}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+const isLocal = (tag) => tag.scope === "city" || tag.scope === "state" || tag.scope === "region";
+
+const pairAdjustment = (business, market) => {
+  if (business.scope === "city" && market.scope === "city" && business.name === market.name) {
+    return GEO_ADJUSTMENTS.city;
+  }
+  if (business.state && market.state && business.state === market.state) return GEO_ADJUSTMENTS.state;
+  if (!business.region || !market.region) return null;
+  if (business.region === market.region) return GEO_ADJUSTMENTS.region;
+  const neighbors = gazetteer.regions[business.region]?.neighbors ?? [];
+  return neighbors.includes(market.region) ? GEO_ADJUSTMENTS.neighbor : GEO_ADJUSTMENTS.mismatch;
+};
+
+// 0 when either side has no local tag: national and global markets are broad proxies, not misses.
+export const geoAdjustment = (businessTags, marketTags) => {
+  const business = (businessTags ?? []).filter(isLocal);
+  const market = (marketTags ?? []).filter(isLocal);
+  if (!business.length || !market.length) return 0;
+
+  let best = null;
+  for (const left of business) {
+    for (const right of market) {
+      const value = pairAdjustment(left, right);
+      if (value !== null && (best === null || value > best)) best = value;
+    }
+  }
+  return best ?? 0;
+};
@@ -1,3 +1,5 @@
+import { kalshiFetch } from "./kalshiTransport.js";
+
 const BASE_URL = process.env.KALSHI_BASE_URL || "https://api.elections.kalshi.com";
 
 const SERIES_TTL_MS = Number(process.env.KALSHI_SERIES_TTL_MS || 30 * 60 * 1000);
@@ -20,7 +22,7 @@ const openCheckCache = new Map();
 const fetchJson = async (url) => {
   let response;
   try {
-    response = await fetch(url, {
+    response = await kalshiFetch(url, {
       headers: {
         Accept: "application/json",
       },
@@ -231,7 +233,7 @@ export const fetchKalshiMarketsForSeries = async ({
 
     let response;
     try {
-      response = await fetch(url.toString(), { headers: { Accept: "application/json" } });
+      response = await kalshiFetch(url.toString(), { headers: { Accept: "application/json" } });
     } catch (err) {
       const cause = err?.cause?.code || err?.cause?.message || err?.message || "fetch_failed";
       throw new Error(`kalshi_fetch_failed: ${cause}`);
@@ -277,7 +279,7 @@ export const fetchKalshiOpenMarketExists = async (seriesTicker) => {
 
   let response;
   try {
-    response = await fetch(url.toString(), { headers: { Accept: "application/json" } });
+    response = await kalshiFetch(url.toString(), { headers: { Accept: "application/json" } });
   } catch (err) {
     const cause = err?.cause?.code || err?.cause?.message || err?.message || "fetch_failed";
     throw new Error(`kalshi_fetch_failed: ${cause}`);
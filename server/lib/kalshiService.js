@@ -215,6 +215,9 @@ const normalizeMarket = (market, categoryId) => {
     toIso(market?.close_time || market?.closeTime || market?.close_ts || market?.closeTimestamp) ||
     new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
 
+  const openTime = toIso(
+    market?.open_time || market?.openTime || market?.open_ts || market?.openTimestamp,
+  );
   const url = ticker ? `https://kalshi.com/markets/${ticker.toLowerCase()}` : "";
 
   return {
@@ -224,6 +227,7 @@ const normalizeMarket = (market, categoryId) => {
     description: market?.description || market?.subtitle || "",
     categoryId,
     closeTime,
+    openTime,
     outcomes: normalizeOutcomes(market),
     liquidity: typeof market?.liquidity === "number" ? market.liquidity : market?.open_interest,
     volume: typeof market?.volume === "number" ? market.volume : market?.volume_24h,
@@ -0,0 +1,128 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+// Every Kalshi request from backend/sync.js and server/lib/kalshiClient.js goes through
+// kalshiFetch. KALSHI_HTTP_MODE picks what happens:
+//   live   - plain fetch (default)
+//   record - fetch, then save the response under KALSHI_FIXTURES_DIR
+//   replay - serve saved responses only; nothing leaves the machine
+// Replay can also inject 429s: KALSHI_REPLAY_RATE_LIMIT_EVERY=3 answers every third request
+// with a 429 and a retry-after of KALSHI_REPLAY_RETRY_AFTER_SEC seconds (default 1).
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, "..", "fixtures", "kalshi");
+const SAVED_HEADERS = ["content-type", "retry-after"];
+
+const getMode = () => {
+  const mode = (process.env.KALSHI_HTTP_MODE || "live").toLowerCase();
+  return mode === "record" || mode === "replay" ? mode : "live";
+};
+
+const getFixturesDir = () => process.env.KALSHI_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+
+// Host is left out so a recording made against one base URL replays against any other.
+export const fixtureKey = (url, method = "GET") => {
+  const parsed = new URL(url);
+  const params = Array.from(parsed.searchParams.entries()).sort(([a, av], [b, bv]) =>
+    a === b ? av.localeCompare(bv) : a.localeCompare(b),
+  );
+  const query = new URLSearchParams(params).toString();
+  return `${method.toUpperCase()} ${parsed.pathname}${query ? `?${query}` : ""}`;
+};
+
+const fixturePath = (key) => {
+  const [, pathAndQuery = ""] = key.split(" ");
+  const slug = pathAndQuery
+    .split("?")[0]
+    .replace(/^\/trade-api\/v2\//, "")
+    .replace(/[^a-z0-9]+/gi, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  const hash = crypto.createHash("sha1").update(key).digest("hex").slice(0, 10);
+  return path.join(getFixturesDir(), `${slug || "root"}-${hash}.json`);
+};
+
+const recordedThisRun = new Set();
+const replayCursor = new Map();
+let replayCount = 0;
+
+export const resetKalshiReplay = () => {
+  recordedThisRun.clear();
+  replayCursor.clear();
+  replayCount = 0;
+};
+
+const toResponse = (saved) =>
+  new Response(typeof saved.body === "string" ? saved.body : JSON.stringify(saved.body), {
+    status: saved.status,
+    headers: saved.headers || {},
+  });
+
+const recordResponse = async (key, response) => {
+  const text = await response.clone().text();
+  let body = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // keep non-JSON bodies as text
+  }
+  const headers = {};
+  for (const name of SAVED_HEADERS) {
+    const value = response.headers.get(name);
+    if (value) headers[name] = value;
+  }
+
+  // The first response for a key in a run replaces the file; later ones (a 429 followed by its
+  // retry, say) are appended and replayed in order.
+  const filePath = fixturePath(key);
+  const existing =
+    recordedThisRun.has(key) && fs.existsSync(filePath)
+      ? JSON.parse(fs.readFileSync(filePath, "utf8"))
+      : { key, responses: [] };
+  existing.responses.push({ status: response.status, headers, body });
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(existing, null, 2)}\n`, "utf8");
+  recordedThisRun.add(key);
+};
+
+const replayResponse = (key) => {
+  replayCount += 1;
+  const every = Number(process.env.KALSHI_REPLAY_RATE_LIMIT_EVERY || 0);
+  if (every > 0 && replayCount % every === 0) {
+    return new Response(JSON.stringify({ error: "rate_limited" }), {
+      status: 429,
+      headers: {
+        "content-type": "application/json",
+        "retry-after": process.env.KALSHI_REPLAY_RETRY_AFTER_SEC || "1",
+      },
+    });
+  }
+
+  const filePath = fixturePath(key);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`kalshi_fixture_missing: ${key}`);
+  }
+  const fixture = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  const responses = Array.isArray(fixture.responses) ? fixture.responses : [];
+  if (!responses.length) {
+    throw new Error(`kalshi_fixture_empty: ${key}`);
+  }
+  const index = replayCursor.get(key) ?? 0;
+  replayCursor.set(key, index + 1);
+  return toResponse(responses[Math.min(index, responses.length - 1)]);
+};
+
+export const getKalshiHttpMode = getMode;
+
+export const kalshiFetch = async (url, init = {}) => {
+  const mode = getMode();
+  const key = fixtureKey(String(url), init.method);
+
+  if (mode === "replay") return replayResponse(key);
+
+  const response = await fetch(url, init);
+  if (mode === "record") await recordResponse(key, response);
+  return response;
+};
@@ -0,0 +1,92 @@
+const BASE_URL = process.env.POLYMARKET_BASE_URL || "https://gamma-api.polymarket.com";
+
+const EVENTS_TTL_MS = Number(process.env.POLYMARKET_EVENTS_TTL_MS || 60000);
+const MAX_PAGES = Number(process.env.POLYMARKET_MAX_PAGES || 5);
+const PAGE_LIMIT = 100;
+
+const eventsCache = new Map();
+
+const getRetryAfterSeconds = (response) => {
+  const header = response.headers.get("retry-after");
+  if (!header) return null;
+
+  const numeric = Number(header);
+  if (!Number.isNaN(numeric) && numeric > 0) return Math.ceil(numeric);
+
+  const asDate = Date.parse(header);
+  if (!Number.isNaN(asDate)) {
+    const diffMs = asDate - Date.now();
+    if (diffMs > 0) return Math.ceil(diffMs / 1000);
+  }
+
+  return null;
+};
+
+const extractEvents = (data) => {
+  if (Array.isArray(data)) return data;
+  for (const key of ["events", "data", "items", "results"]) {
+    if (Array.isArray(data?.[key])) return data[key];
+  }
+  return [];
+};
+
+export const getPolymarketEventsCacheSnapshot = () => {
+  const now = Date.now();
+  return Array.from(eventsCache.entries()).map(([key, value]) => ({
+    key,
+    ageMs: now - value.fetchedAtMs,
+    count: Array.isArray(value.events) ? value.events.length : 0,
+  }));
+};
+
+// Gamma pages with limit/offset rather than a cursor, so keep going until a short page.
+export const fetchPolymarketEventsByTag = async (tagSlug) => {
+  if (!tagSlug) {
+    return { events: [], cacheHit: false, rateLimited: false, retryAfterSec: null };
+  }
+
+  const cached = eventsCache.get(tagSlug);
+  if (cached && Date.now() - cached.fetchedAtMs < EVENTS_TTL_MS) {
+    return { events: cached.events, cacheHit: true, rateLimited: false, retryAfterSec: null };
+  }
+
+  const events = [];
+  let pages = 0;
+
+  do {
+    const url = new URL("/events", BASE_URL);
+    url.searchParams.set("tag_slug", tagSlug);
+    url.searchParams.set("active", "true");
+    url.searchParams.set("closed", "false");
+    url.searchParams.set("limit", String(PAGE_LIMIT));
+    url.searchParams.set("offset", String(pages * PAGE_LIMIT));
+
+    let response;
+    try {
+      response = await fetch(url.toString(), { headers: { Accept: "application/json" } });
+    } catch (err) {
+      const cause = err?.cause?.code || err?.cause?.message || err?.message || "fetch_failed";
+      throw new Error(`polymarket_fetch_failed: ${cause}`);
+    }
+
+    if (response.status === 429) {
+      const retryAfterSec = getRetryAfterSeconds(response);
+      return { events, cacheHit: false, rateLimited: true, retryAfterSec };
+    }
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`polymarket_http_${response.status}: ${text}`);
+    }
+
+    const data = await response.json();
+    const batch = extractEvents(data);
+    events.push(...batch);
+    pages += 1;
+
+    if (batch.length < PAGE_LIMIT) break;
+  } while (pages < MAX_PAGES);
+
+  eventsCache.set(tagSlug, { events, fetchedAtMs: Date.now() });
+  return { events, cacheHit: false, rateLimited: false, retryAfterSec: null };
+};
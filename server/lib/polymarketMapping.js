@@ -0,0 +1,29 @@
+export const POLYMARKET_CATEGORY_PLANS = {
+  agriculture: {
+    tagSlugs: ["weather", "commodities"],
+  },
+  weather: {
+    tagSlugs: ["weather", "climate"],
+  },
+  energy: {
+    tagSlugs: ["oil", "commodities"],
+  },
+  logistics: {
+    tagSlugs: ["trade", "economy"],
+  },
+  tourism: {
+    tagSlugs: ["travel", "economy"],
+  },
+  finance: {
+    tagSlugs: ["economy", "fed", "inflation"],
+  },
+  health: {
+    tagSlugs: ["health", "pandemics"],
+  },
+  technology: {
+    tagSlugs: ["tech", "ai"],
+  },
+  "real-estate": {
+    tagSlugs: ["housing", "economy"],
+  },
+};
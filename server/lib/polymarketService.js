@@ -0,0 +1,143 @@
+import { fetchPolymarketEventsByTag } from "./polymarketClient.js";
+import { POLYMARKET_CATEGORY_PLANS } from "./polymarketMapping.js";
+
+const normalize = (value) => String(value || "").toLowerCase().trim();
+
+const toIso = (value) => {
+  if (!value) return null;
+  if (typeof value === "number") {
+    const ms = value > 1e12 ? value : value * 1000;
+    return new Date(ms).toISOString();
+  }
+  if (typeof value === "string") {
+    const parsed = new Date(value);
+    if (!Number.isNaN(parsed.getTime())) return parsed.toISOString();
+  }
+  return null;
+};
+
+const toNumber = (value) => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+};
+
+// Gamma sends outcomes and prices as JSON-encoded strings ("[\"Yes\", \"No\"]").
+const parseList = (value) => {
+  if (Array.isArray(value)) return value;
+  if (typeof value !== "string" || !value.trim()) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const slugify = (value) =>
+  normalize(value)
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+export const normalizePolymarketOutcomes = (market) => {
+  const labels = parseList(market?.outcomes).map((label) => String(label));
+  const prices = parseList(market?.outcomePrices ?? market?.outcome_prices).map(toNumber);
+
+  if (!labels.length) {
+    return [
+      { id: "yes", label: "Yes" },
+      { id: "no", label: "No" },
+    ];
+  }
+
+  return labels.map((label, index) => {
+    const lower = normalize(label);
+    const id = lower === "yes" || lower === "no" ? lower : slugify(label) || `outcome-${index}`;
+    const price = prices[index];
+    return typeof price === "number" ? { id, label, price } : { id, label };
+  });
+};
+
+export const normalizePolymarketMarket = (event, market, categoryId) => {
+  const slug = market?.slug || market?.id || "";
+  const question = market?.question || market?.title || event?.title || "Polymarket market";
+  const closeTime =
+    toIso(market?.endDate || market?.end_date_iso || event?.endDate) ||
+    new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
+  const eventSlug = event?.slug || "";
+
+  return {
+    id: slug ? `polymarket-${slug}` : `${categoryId}-${question}`,
+    source: "polymarket",
+    title: question,
+    description: market?.description || event?.description || "",
+    categoryId,
+    closeTime,
+    outcomes: normalizePolymarketOutcomes(market),
+    liquidity: toNumber(market?.liquidityNum) ?? toNumber(market?.liquidity) ?? toNumber(event?.liquidity),
+    volume: toNumber(market?.volumeNum) ?? toNumber(market?.volume) ?? toNumber(event?.volume),
+    url: eventSlug ? `https://polymarket.com/event/${eventSlug}` : "",
+  };
+};
+
+const isOpen = (item) => item?.active !== false && item?.closed !== true && item?.archived !== true;
+
+export const fetchPolymarketMarketsForCategories = async (categories) => {
+  const markets = [];
+  const seen = new Set();
+  let eventsFetched = 0;
+  let cacheHits = 0;
+  let cacheMisses = 0;
+  let rateLimited = false;
+  let retryAfterSec = null;
+  const tagsUsed = [];
+
+  for (const categoryId of categories) {
+    const plan = POLYMARKET_CATEGORY_PLANS[categoryId];
+    if (!plan) continue;
+
+    for (const tagSlug of plan.tagSlugs) {
+      if (!tagsUsed.includes(tagSlug)) tagsUsed.push(tagSlug);
+      const result = await fetchPolymarketEventsByTag(tagSlug);
+      if (result.cacheHit) cacheHits += 1;
+      else cacheMisses += 1;
+      eventsFetched += result.events.length;
+
+      for (const event of result.events) {
+        if (!isOpen(event)) continue;
+        const eventMarkets = Array.isArray(event?.markets) ? event.markets : [];
+        for (const market of eventMarkets) {
+          if (!isOpen(market)) continue;
+          const normalized = normalizePolymarketMarket(event, market, categoryId);
+          if (seen.has(normalized.id)) continue;
+          seen.add(normalized.id);
+          markets.push(normalized);
+        }
+      }
+
+      if (result.rateLimited) {
+        rateLimited = true;
+        retryAfterSec = result.retryAfterSec;
+        break;
+      }
+    }
+    if (rateLimited) break;
+  }
+
+  return {
+    markets,
+    meta: {
+      eventsFetched,
+      cacheHits,
+      cacheMisses,
+      rateLimited,
+      retryAfterSec,
+      partial: rateLimited,
+      marketsTotal: markets.length,
+      tagsUsed,
+    },
+  };
+};
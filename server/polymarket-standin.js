@@ -0,0 +1,46 @@
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+// Serves recorded Gamma payloads so the Polymarket provider can run without the real API:
+//   POLYMARKET_BASE_URL=http://localhost:4010 npm run dev:api
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, "fixtures", "polymarket");
+const PORT = Number(process.env.POLYMARKET_STANDIN_PORT || 4010);
+
+const readFixture = (fixturesDir, tagSlug) => {
+  const safeSlug = String(tagSlug || "").replace(/[^a-z0-9-]/gi, "");
+  if (!safeSlug) return [];
+  const filePath = path.join(fixturesDir, `events-${safeSlug}.json`);
+  if (!fs.existsSync(filePath)) return [];
+  return JSON.parse(fs.readFileSync(filePath, "utf8"));
+};
+
+export const createPolymarketStandin = ({ fixturesDir = DEFAULT_FIXTURES_DIR } = {}) =>
+  http.createServer((req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (req.method !== "GET" || url.pathname !== "/events") {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "not_found" }));
+      return;
+    }
+
+    try {
+      const events = readFixture(fixturesDir, url.searchParams.get("tag_slug"));
+      const limit = Number(url.searchParams.get("limit") || events.length || 1);
+      const offset = Number(url.searchParams.get("offset") || 0);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(events.slice(offset, offset + limit)));
+    } catch (err) {
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "fixture_error", details: err?.message || String(err) }));
+    }
+  });
+
+if (process.argv[1] && path.resolve(process.argv[1]) === __filename) {
+  createPolymarketStandin().listen(PORT, () => {
+    console.log(`Polymarket stand-in serving fixtures on http://localhost:${PORT}`);
+  });
+}
@@ -17,6 +17,10 @@ export const formatPercent = (value: number, digits = 0): string => {
   return formatter.format(normalized / 100);
 };
 
+// Kalshi prices arrive in cents; the hedge maths works in dollars per contract.
+export const centsToDollars = (value: number | null | undefined) =>
+  typeof value === "number" ? value / 100 : null;
+
 export const daysUntil = (iso: string): number => {
   const target = new Date(iso).getTime();
   if (Number.isNaN(target)) return 0;
@@ -0,0 +1,59 @@
+import type { HedgeQuoteOutput } from "@/lib/hedgeCalculator";
+
+export type HedgeEdgeClass = "insurance-priced" | "positive-EV";
+
+export type HedgeEdgeAnalysis = {
+  personal_probability: number;
+  market_probability: number;
+  break_even_probability: number;
+  edge: number;
+  hedge_expected_value: number;
+  position_expected_value: number;
+  classification: HedgeEdgeClass;
+  summary: string;
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Accepts 0.2 or 20 for a 20% belief, like the percent inputs elsewhere in the calculator.
+export const normalizeProbability = (value: number): number => {
+  if (!Number.isFinite(value) || value < 0 || value > 100) {
+    throw new Error("invalid_personal_probability");
+  }
+  return value > 1 ? value / 100 : value;
+};
+
+// The hedge on its own pays $1 per contract when the event hits, so it breaks even once the
+// owner's probability reaches the all-in cost per contract. Below that it is insurance: a premium
+// paid to cut variance. Above it the owner expects the contracts to make money by themselves.
+export const analyzeHedgeEdge = (
+  quote: HedgeQuoteOutput,
+  personalProbability: number,
+): HedgeEdgeAnalysis => {
+  const p = normalizeProbability(personalProbability);
+  if (quote.actual_payout <= 0) {
+    throw new Error("empty_hedge");
+  }
+
+  const cost = quote.total_cost_with_financing;
+  const breakEven = cost / quote.actual_payout;
+  const hedgeExpectedValue = p * quote.actual_payout - cost;
+  const positionExpectedValue = p * quote.profit_if_event + (1 - p) * quote.profit_if_no_event;
+  const classification: HedgeEdgeClass = p > breakEven ? "positive-EV" : "insurance-priced";
+
+  const summary =
+    classification === "positive-EV"
+      ? `At ${formatPercent(p)} you expect the contracts to return more than they cost; break-even is ${formatPercent(breakEven)}.`
+      : `At ${formatPercent(p)} the hedge costs more than you expect it to pay; you need ${formatPercent(breakEven)} to break even, so you are paying for insurance.`;
+
+  return {
+    personal_probability: p,
+    market_probability: quote.event_probability,
+    break_even_probability: breakEven,
+    edge: p - breakEven,
+    hedge_expected_value: hedgeExpectedValue,
+    position_expected_value: positionExpectedValue,
+    classification,
+    summary,
+  };
+};
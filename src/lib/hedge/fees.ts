@@ -0,0 +1,33 @@
+import type { MarketSource } from "@/types/hedgi";
+
+export type FeeSchedule = {
+  id: string;
+  label: string;
+  feeFor: (contracts: number, price: number) => number;
+};
+
+const roundUpToCent = (value: number) => Math.ceil(Number((value * 100).toFixed(6))) / 100;
+
+// Kalshi charges rate * C * P * (1 - P) per order, rounded up to the next cent.
+export const createKalshiFeeSchedule = (rate = 0.07): FeeSchedule => ({
+  id: rate === 0.07 ? "kalshi-taker" : `kalshi-${rate}`,
+  label: `Kalshi ${(rate * 100).toFixed(2)}% × P × (1 − P)`,
+  feeFor: (contracts, price) => {
+    if (contracts <= 0) return 0;
+    return roundUpToCent(rate * contracts * price * (1 - price));
+  },
+});
+
+export const zeroFeeSchedule: FeeSchedule = {
+  id: "none",
+  label: "No trading fees",
+  feeFor: () => 0,
+};
+
+export const FEE_SCHEDULES: Record<MarketSource, FeeSchedule> = {
+  kalshi: createKalshiFeeSchedule(),
+  polymarket: zeroFeeSchedule,
+};
+
+export const getFeeSchedule = (source: string | null | undefined): FeeSchedule | null =>
+  source && source in FEE_SCHEDULES ? FEE_SCHEDULES[source as MarketSource] : null;
@@ -0,0 +1,265 @@
+import type { MarketOutcome } from "@/types/hedgi";
+import { centsToDollars } from "@/lib/format";
+
+export type LadderBracket = {
+  outcome_id: string;
+  label: string;
+  lower: number | null;
+  upper: number | null;
+  price: number;
+};
+
+export type LossCurve = (value: number) => number;
+
+export type LadderHedgeInput = {
+  market_id: string;
+  brackets: LadderBracket[];
+  loss_at: LossCurve;
+  budget?: number | null;
+  samples_per_bracket?: number;
+};
+
+export type LadderHedgeLeg = LadderBracket & {
+  target_payout: number;
+  contracts: number;
+  cost: number;
+};
+
+export type LadderCurvePoint = {
+  value: number;
+  loss: number;
+  payoff: number;
+  residual: number;
+};
+
+export type LadderHedgeOutput = {
+  market_id: string;
+  legs: LadderHedgeLeg[];
+  total_cost: number;
+  max_payout: number;
+  budget_scale: number;
+  residual_rms: number;
+  residual_max: number;
+  loss_rms: number;
+  curve: LadderCurvePoint[];
+};
+
+// A minus counts as a sign only when it does not follow a number, so "4-6" stays a range.
+const NUMBER_PATTERN = /(?:(?<![\d.%])[-−])?\d[\d,]*(?:\.\d+)?/g;
+
+const parseNumbers = (label: string): number[] =>
+  (label.match(NUMBER_PATTERN) ?? [])
+    .map((raw) => Number(raw.replace(/,/g, "").replace("−", "-")))
+    .filter((value) => Number.isFinite(value));
+
+export const parseBracketLabel = (
+  label: string,
+): { lower: number | null; upper: number | null } | null => {
+  const text = (label || "").toLowerCase();
+  const numbers = parseNumbers(text);
+  if (!numbers.length) return null;
+
+  if (numbers.length >= 2 && /(\bto\b|-|–|between|through)/.test(text)) {
+    const [a, b] = numbers;
+    return { lower: Math.min(a, b), upper: Math.max(a, b) };
+  }
+
+  const value = numbers[0];
+  if (/(below|under|less than|fewer than|or less|or below|or lower|at most)/.test(text)) {
+    return { lower: null, upper: value };
+  }
+  if (/(above|over|more than|greater than|or more|or above|or higher|at least|\+)/.test(text)) {
+    return { lower: value, upper: null };
+  }
+  return null;
+};
+
+export const bracketsFromOutcomes = (outcomes: MarketOutcome[]): LadderBracket[] =>
+  (outcomes ?? [])
+    .map((outcome) => {
+      const bounds = parseBracketLabel(outcome.label);
+      if (!bounds || typeof outcome.price !== "number") return null;
+      const price = outcome.price > 1 ? outcome.price / 100 : outcome.price;
+      if (!(price > 0 && price < 1)) return null;
+      return { outcome_id: outcome.id, label: outcome.label, price, ...bounds };
+    })
+    .filter((bracket): bracket is LadderBracket => bracket !== null);
+
+export type LadderStrike = {
+  market_ticker: string;
+  subtitle?: string | null;
+  strike_type?: string | null;
+  floor_strike?: number | null;
+  cap_strike?: number | null;
+  // Kalshi cents, as stored for each event strike.
+  price_yes?: number | null;
+};
+
+// Kalshi lists each strike's bounds; the subtitle is only parsed when they are missing.
+export const bracketsFromStrikes = (strikes: LadderStrike[]): LadderBracket[] =>
+  (strikes ?? [])
+    .map((strike) => {
+      const floor = typeof strike.floor_strike === "number" ? strike.floor_strike : null;
+      const cap = typeof strike.cap_strike === "number" ? strike.cap_strike : null;
+      const bounds =
+        floor !== null && cap !== null
+          ? { lower: floor, upper: cap }
+          : floor !== null && strike.strike_type !== "less"
+            ? { lower: floor, upper: null }
+            : cap !== null
+              ? { lower: null, upper: cap }
+              : parseBracketLabel(strike.subtitle ?? "");
+      if (!bounds || typeof strike.price_yes !== "number") return null;
+      const price = centsToDollars(strike.price_yes);
+      if (!(price > 0 && price < 1)) return null;
+      return {
+        outcome_id: strike.market_ticker,
+        label: strike.subtitle || strike.market_ticker,
+        price,
+        ...bounds,
+      };
+    })
+    .filter((bracket): bracket is LadderBracket => bracket !== null);
+
+export const lossAboveThreshold =
+  (threshold: number, lossPerUnit: number, maxLoss = Infinity): LossCurve =>
+  (value) =>
+    Math.min(maxLoss, Math.max(0, value - threshold) * lossPerUnit);
+
+export const lossBelowThreshold =
+  (threshold: number, lossPerUnit: number, maxLoss = Infinity): LossCurve =>
+  (value) =>
+    Math.min(maxLoss, Math.max(0, threshold - value) * lossPerUnit);
+
+// Open-ended brackets get the width of their closest bounded neighbour so they can be sampled.
+// Expects the brackets in ladder order.
+const resolveSpans = (brackets: LadderBracket[]) => {
+  const widthAt = (bracket: LadderBracket | undefined) =>
+    bracket && bracket.lower !== null && bracket.upper !== null && bracket.upper > bracket.lower
+      ? bracket.upper - bracket.lower
+      : null;
+  const neighbourWidth = (index: number) => {
+    for (let distance = 1; distance < brackets.length; distance += 1) {
+      const width = widthAt(brackets[index - distance]) ?? widthAt(brackets[index + distance]);
+      if (width !== null) return width;
+    }
+    return 1;
+  };
+
+  return brackets.map((bracket, index) => {
+    const width = bracket.lower === null || bracket.upper === null ? neighbourWidth(index) : 0;
+    const lower = bracket.lower ?? (bracket.upper as number) - width;
+    const upper = bracket.upper ?? (bracket.lower as number) + width;
+    return { lower, upper };
+  });
+};
+
+const sampleSpan = (lower: number, upper: number, count: number): number[] =>
+  Array.from({ length: count }, (_, index) => lower + ((index + 0.5) / count) * (upper - lower));
+
+// Ladder order: by lower bound, with an open lower end first and an open upper end last.
+const compareBrackets = (a: LadderBracket, b: LadderBracket) =>
+  (a.lower ?? -Infinity) - (b.lower ?? -Infinity) || (a.upper ?? Infinity) - (b.upper ?? Infinity);
+
+// "Above 2", "Above 3", ... (or "Below ...") overlap: each leg pays on every band past its strike.
+const cumulativeSide = (brackets: LadderBracket[]): "above" | "below" | null => {
+  if (brackets.length < 2) return null;
+  if (brackets.every((bracket) => bracket.upper === null)) return "above";
+  if (brackets.every((bracket) => bracket.lower === null)) return "below";
+  return null;
+};
+
+// The exclusive bands between neighbouring strikes; the outermost band takes its neighbour's width.
+const cumulativeBands = (brackets: LadderBracket[], side: "above" | "below") => {
+  const strikes = brackets.map((bracket) => (side === "above" ? bracket.lower : bracket.upper) as number);
+  return strikes.map((strike, index) => {
+    if (side === "above") {
+      const next = strikes[index + 1] ?? strike + (strike - strikes[index - 1]);
+      return { lower: strike, upper: next };
+    }
+    const previous = strikes[index - 1] ?? strike - (strikes[index + 1] - strike);
+    return { lower: previous, upper: strike };
+  });
+};
+
+const containsValue = (bracket: LadderBracket, value: number) =>
+  (bracket.lower === null || value >= bracket.lower) &&
+  (bracket.upper === null || value < bracket.upper);
+
+export const buildLadderHedge = (input: LadderHedgeInput): LadderHedgeOutput => {
+  const brackets = (input.brackets ?? [])
+    .filter((bracket) => bracket.price > 0 && bracket.price < 1)
+    .filter((bracket) => bracket.lower !== null || bracket.upper !== null)
+    .slice()
+    .sort(compareBrackets);
+
+  if (!brackets.length) {
+    throw new Error("empty_ladder");
+  }
+  if (typeof input.loss_at !== "function") {
+    throw new Error("invalid_loss_curve");
+  }
+
+  const samplesPerBracket = Math.max(2, Math.floor(input.samples_per_bracket ?? 20));
+  const side = cumulativeSide(brackets);
+  const spans = side ? cumulativeBands(brackets, side) : resolveSpans(brackets);
+  const budget = typeof input.budget === "number" ? Math.max(0, input.budget) : null;
+
+  // The least-squares payout for each band is its mean loss.
+  const targets = brackets.map((bracket, index) => {
+    const samples = sampleSpan(spans[index].lower, spans[index].upper, samplesPerBracket);
+    const meanLoss =
+      samples.reduce((sum, value) => sum + Math.max(0, input.loss_at(value)), 0) / samples.length;
+    return { bracket, target: meanLoss, contracts: Math.round(meanLoss) };
+  });
+
+  // Overlapping legs stack, so each one only buys the step from the bands it already pays on.
+  if (side) {
+    const order = targets.map((_, index) => index);
+    if (side === "below") order.reverse();
+    let paid = 0;
+    for (const index of order) {
+      targets[index].contracts = Math.max(0, Math.round(targets[index].target - paid));
+      paid += targets[index].contracts;
+    }
+  }
+
+  const fullCost = targets.reduce((sum, item) => sum + item.contracts * item.bracket.price, 0);
+  const budgetScale = budget !== null && fullCost > budget && fullCost > 0 ? budget / fullCost : 1;
+
+  const legs: LadderHedgeLeg[] = targets.map(({ bracket, target, contracts }) => {
+    const scaled = budgetScale < 1 ? Math.floor(contracts * budgetScale) : contracts;
+    return {
+      ...bracket,
+      target_payout: target,
+      contracts: scaled,
+      cost: scaled * bracket.price,
+    };
+  });
+
+  const payoffAt = (value: number) =>
+    legs.reduce((sum, leg) => (containsValue(leg, value) ? sum + leg.contracts : sum), 0);
+
+  const curve: LadderCurvePoint[] = spans.flatMap((span) =>
+    sampleSpan(span.lower, span.upper, samplesPerBracket).map((value) => {
+      const loss = Math.max(0, input.loss_at(value));
+      const payoff = payoffAt(value);
+      return { value, loss, payoff, residual: loss - payoff };
+    }),
+  );
+
+  const rms = (values: number[]) =>
+    values.length ? Math.sqrt(values.reduce((sum, value) => sum + value * value, 0) / values.length) : 0;
+
+  return {
+    market_id: input.market_id,
+    legs,
+    total_cost: legs.reduce((sum, leg) => sum + leg.cost, 0),
+    max_payout: curve.reduce((max, point) => Math.max(max, point.payoff), 0),
+    budget_scale: budgetScale,
+    residual_rms: rms(curve.map((point) => point.residual)),
+    residual_max: curve.reduce((max, point) => Math.max(max, Math.abs(point.residual)), 0),
+    loss_rms: rms(curve.map((point) => point.loss)),
+    curve,
+  };
+};
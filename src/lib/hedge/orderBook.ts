@@ -0,0 +1,103 @@
+import type { FeeSchedule } from "@/lib/hedge/fees";
+import type { HedgeSide } from "@/lib/hedge/side";
+
+export type OrderBookLevel = {
+  price: number;
+  size: number;
+};
+
+export type OrderBookSnapshot = {
+  market_ticker: string;
+  side: HedgeSide;
+  captured_at: string | null;
+  levels: OrderBookLevel[];
+};
+
+export type OrderBookFill = {
+  filled: number;
+  unfilled: number;
+  premium: number;
+  fees: number;
+  average_price: number | null;
+  marginal_price: number | null;
+};
+
+// Prices are in dollars, as the backend sync stores them; a 1¢ level is 0.01.
+export const normalizeOrderBookLevels = (levels: OrderBookLevel[]): OrderBookLevel[] =>
+  (levels ?? [])
+    .map((level) => ({ price: level.price, size: Math.floor(level.size) }))
+    .filter((level) => level.price > 0 && level.price < 1 && level.size > 0)
+    .sort((a, b) => a.price - b.price);
+
+export const orderBookDepth = (levels: OrderBookLevel[]): number =>
+  levels.reduce((sum, level) => sum + level.size, 0);
+
+// Walks ask levels cheapest first; fees are charged per level since each level is a separate fill.
+export const walkOrderBook = (
+  levels: OrderBookLevel[],
+  contracts: number,
+  feeSchedule: FeeSchedule | null = null,
+): OrderBookFill => {
+  let remaining = Math.max(0, Math.floor(contracts));
+  let filled = 0;
+  let premium = 0;
+  let fees = 0;
+  let marginalPrice: number | null = null;
+
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    const take = Math.min(remaining, level.size);
+    premium += take * level.price;
+    fees += feeSchedule ? feeSchedule.feeFor(take, level.price) : 0;
+    filled += take;
+    remaining -= take;
+    marginalPrice = level.price;
+  }
+
+  return {
+    filled,
+    unfilled: remaining,
+    premium,
+    fees,
+    average_price: filled > 0 ? premium / filled : null,
+    marginal_price: marginalPrice,
+  };
+};
+
+type OrderBookResponse = {
+  market_ticker?: string;
+  side?: string;
+  captured_at?: string | null;
+  levels?: OrderBookLevel[];
+};
+
+export const fetchOrderBook = async (
+  marketTicker: string,
+  side: HedgeSide,
+): Promise<OrderBookSnapshot | null> => {
+  const response = await fetch(
+    `/api/markets/${encodeURIComponent(marketTicker)}/orderbook?side=${side}`,
+  );
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`orderbook_api_${response.status}`);
+  }
+
+  const data = (await response.json()) as OrderBookResponse;
+  const levels = normalizeOrderBookLevels(
+    Array.isArray(data?.levels)
+      ? data.levels.filter(
+          (level) => level && typeof level.price === "number" && typeof level.size === "number",
+        )
+      : [],
+  );
+  if (!levels.length) return null;
+
+  return {
+    market_ticker: data.market_ticker ?? marketTicker,
+    side,
+    captured_at: typeof data.captured_at === "string" ? data.captured_at : null,
+    levels,
+  };
+};
@@ -0,0 +1,154 @@
+import type { HedgeQuoteOutput } from "@/lib/hedgeCalculator";
+import type { PnlSimulationOutput } from "@/lib/hedge/simulation";
+
+export type PnlScenario = {
+  value: number;
+  probability: number;
+};
+
+export type RiskMetrics = {
+  confidence: number;
+  expected: number;
+  value_at_risk: number;
+  conditional_value_at_risk: number;
+  probability_of_loss: number;
+  worst_case: number;
+};
+
+export type RiskMetricsDelta = Omit<RiskMetrics, "confidence">;
+
+export type RiskComparison = {
+  confidence: number;
+  unhedged: RiskMetrics;
+  hedged: RiskMetrics;
+  delta: RiskMetricsDelta;
+};
+
+const PROBABILITY_EPSILON = 1e-12;
+
+const validateConfidence = (confidence: number) => {
+  if (!Number.isFinite(confidence) || confidence <= 0 || confidence >= 1) {
+    throw new Error("invalid_confidence");
+  }
+};
+
+// VaR and CVaR are reported as positive losses (a negative number means even the tail makes
+// money). CVaR averages the worst (1 - confidence) of probability mass, splitting an atom at the
+// boundary so discrete scenarios give the same answer as their expanded samples.
+export const riskMetricsFromScenarios = (
+  scenarios: PnlScenario[],
+  confidence = 0.95,
+): RiskMetrics => {
+  validateConfidence(confidence);
+  const valid = scenarios.filter(
+    (scenario) =>
+      Number.isFinite(scenario.value) &&
+      Number.isFinite(scenario.probability) &&
+      scenario.probability > 0,
+  );
+  const totalProbability = valid.reduce((sum, scenario) => sum + scenario.probability, 0);
+  if (!valid.length || totalProbability <= 0) {
+    throw new Error("empty_scenarios");
+  }
+
+  const sorted = valid
+    .map((scenario) => ({ value: scenario.value, probability: scenario.probability / totalProbability }))
+    .sort((a, b) => a.value - b.value);
+
+  const tail = 1 - confidence;
+  let cumulative = 0;
+  let quantile = sorted[sorted.length - 1].value;
+  let tailSum = 0;
+  let tailMass = 0;
+
+  for (const scenario of sorted) {
+    const take = Math.min(scenario.probability, Math.max(0, tail - tailMass));
+    tailSum += take * scenario.value;
+    tailMass += take;
+    cumulative += scenario.probability;
+    if (cumulative >= tail - PROBABILITY_EPSILON) {
+      quantile = Math.min(quantile, scenario.value);
+      if (tailMass >= tail - PROBABILITY_EPSILON) break;
+    }
+  }
+
+  return {
+    confidence,
+    expected: sorted.reduce((sum, scenario) => sum + scenario.value * scenario.probability, 0),
+    value_at_risk: -quantile,
+    conditional_value_at_risk: -(tailSum / Math.max(tailMass, PROBABILITY_EPSILON)),
+    probability_of_loss: sorted
+      .filter((scenario) => scenario.value < 0)
+      .reduce((sum, scenario) => sum + scenario.probability, 0),
+    worst_case: sorted[0].value,
+  };
+};
+
+export const riskMetricsFromSamples = (samples: number[], confidence = 0.95): RiskMetrics =>
+  riskMetricsFromScenarios(
+    samples.map((value) => ({ value, probability: 1 })),
+    confidence,
+  );
+
+const diff = (hedged: RiskMetrics, unhedged: RiskMetrics): RiskMetricsDelta => ({
+  expected: hedged.expected - unhedged.expected,
+  value_at_risk: hedged.value_at_risk - unhedged.value_at_risk,
+  conditional_value_at_risk: hedged.conditional_value_at_risk - unhedged.conditional_value_at_risk,
+  probability_of_loss: hedged.probability_of_loss - unhedged.probability_of_loss,
+  worst_case: hedged.worst_case - unhedged.worst_case,
+});
+
+const compare = (
+  unhedged: RiskMetrics,
+  hedged: RiskMetrics,
+  confidence: number,
+): RiskComparison => ({
+  confidence,
+  unhedged,
+  hedged,
+  delta: diff(hedged, unhedged),
+});
+
+// Two-point view that matches the quote: the loss and the hedge payout arrive together with the
+// market-implied probability.
+export const compareQuoteRisk = (
+  quote: HedgeQuoteOutput,
+  expectedProfit: number,
+  lossIfEvent: number,
+  confidence = 0.95,
+): RiskComparison => {
+  if (!Number.isFinite(expectedProfit)) {
+    throw new Error("invalid_expected_profit");
+  }
+  if (!Number.isFinite(lossIfEvent) || lossIfEvent <= 0) {
+    throw new Error("invalid_loss_if_event");
+  }
+  const pEvent = Math.min(1, Math.max(0, quote.event_probability));
+
+  const unhedged = riskMetricsFromScenarios(
+    [
+      { value: expectedProfit - lossIfEvent, probability: pEvent },
+      { value: expectedProfit, probability: 1 - pEvent },
+    ],
+    confidence,
+  );
+  const hedged = riskMetricsFromScenarios(
+    [
+      { value: quote.profit_if_event, probability: pEvent },
+      { value: quote.profit_if_no_event, probability: 1 - pEvent },
+    ],
+    confidence,
+  );
+
+  return compare(unhedged, hedged, confidence);
+};
+
+export const compareSimulationRisk = (
+  simulation: PnlSimulationOutput,
+  confidence = 0.95,
+): RiskComparison =>
+  compare(
+    riskMetricsFromSamples(simulation.unhedged.samples, confidence),
+    riskMetricsFromSamples(simulation.hedged.samples, confidence),
+    confidence,
+  );
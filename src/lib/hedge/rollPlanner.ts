@@ -0,0 +1,228 @@
+import type { BusinessProfile, MarketSource } from "@/types/hedgi";
+import {
+  computeHedgeQuote,
+  type HedgeQuoteOutput,
+  type HedgeSide,
+} from "@/lib/hedgeCalculator";
+
+export type RevenueSeason = NonNullable<BusinessProfile["revenueSeason"]>;
+
+export type RollCandidate = {
+  market_id: string;
+  title?: string;
+  close_time: string;
+  open_time?: string | null;
+  price_yes: number;
+  price_no?: number | null;
+  side?: HedgeSide;
+  source?: MarketSource | null;
+};
+
+export type RollPlanInput = {
+  season: RevenueSeason | null;
+  candidates: RollCandidate[];
+  expected_profit: number;
+  loss_if_event: number;
+  hedge_coverage?: number;
+  now?: Date;
+};
+
+export type RollLeg = {
+  market_id: string;
+  title: string;
+  start: string;
+  end: string;
+  covered_days: number;
+  loss_share: number;
+  quote: HedgeQuoteOutput;
+};
+
+export type RollMonthStatus = "covered" | "partial" | "gap";
+
+export type RollMonth = {
+  month: string;
+  label: string;
+  coverage: number;
+  status: RollMonthStatus;
+  market_ids: string[];
+};
+
+export type RollGap = {
+  start: string;
+  end: string;
+  days: number;
+};
+
+export type RollPlanOutput = {
+  window_start: string;
+  window_end: string;
+  legs: RollLeg[];
+  months: RollMonth[];
+  gaps: RollGap[];
+  coverage: number;
+  fully_covered: boolean;
+  total_cost: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const isMonth = (value: number | null | undefined): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 12;
+
+const toIso = (ms: number) => new Date(ms).toISOString();
+
+const parseTime = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+// The season currently under way, or the next one to start. Months are 1-12 and the window can
+// wrap the year end (Nov-Feb). Everything is UTC so plans don't shift with the viewer's timezone.
+export const seasonWindow = (season: RevenueSeason, now: Date): { start: number; end: number } => {
+  const { startMonth, endMonth } = season;
+  if (!isMonth(startMonth) || !isMonth(endMonth)) {
+    throw new Error("invalid_season");
+  }
+
+  const month = now.getUTCMonth() + 1;
+  const year = now.getUTCFullYear();
+  const wraps = endMonth < startMonth;
+  const inSeason = wraps
+    ? month >= startMonth || month <= endMonth
+    : month >= startMonth && month <= endMonth;
+
+  let startYear: number;
+  if (inSeason) {
+    startYear = wraps && month <= endMonth ? year - 1 : year;
+  } else {
+    startYear = month < startMonth ? year : year + 1;
+  }
+
+  const start = Date.UTC(startYear, startMonth - 1, 1);
+  const end = Date.UTC(startYear + (wraps ? 1 : 0), endMonth, 1);
+  return { start: Math.max(start, now.getTime()), end };
+};
+
+type Interval = { start: number; end: number };
+
+const overlap = (a: Interval, b: Interval) => Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+
+// Classic greedy interval cover: from the cursor, take the open market that runs latest; when
+// nothing is open at the cursor, record a gap and jump to the next market that opens.
+export const planHedgeRoll = (input: RollPlanInput): RollPlanOutput => {
+  if (!input.season) {
+    throw new Error("invalid_season");
+  }
+  if (!Number.isFinite(input.loss_if_event) || input.loss_if_event <= 0) {
+    throw new Error("invalid_loss_if_event");
+  }
+
+  const now = input.now ?? new Date();
+  const window = seasonWindow(input.season, now);
+  const windowMs = Math.max(1, window.end - window.start);
+
+  const intervals = (input.candidates ?? [])
+    .filter((candidate) => candidate.price_yes > 0 && candidate.price_yes < 1)
+    .map((candidate) => {
+      const end = parseTime(candidate.close_time);
+      const opens = parseTime(candidate.open_time);
+      return end === null
+        ? null
+        : { candidate, start: Math.max(opens ?? now.getTime(), now.getTime()), end };
+    })
+    .filter((entry): entry is { candidate: RollCandidate; start: number; end: number } =>
+      Boolean(entry && entry.end > window.start && entry.start < window.end && entry.end > entry.start),
+    );
+
+  const chosen: Array<{ candidate: RollCandidate; start: number; end: number }> = [];
+  const gaps: Interval[] = [];
+  let cursor = window.start;
+
+  while (cursor < window.end) {
+    const open = intervals
+      .filter((entry) => entry.start <= cursor && entry.end > cursor)
+      .sort((a, b) => b.end - a.end || a.candidate.market_id.localeCompare(b.candidate.market_id));
+
+    if (open.length) {
+      const pick = open[0];
+      const end = Math.min(pick.end, window.end);
+      chosen.push({ candidate: pick.candidate, start: cursor, end });
+      cursor = end;
+      continue;
+    }
+
+    const next = intervals
+      .filter((entry) => entry.start > cursor)
+      .reduce<number | null>(
+        (earliest, entry) => (earliest === null || entry.start < earliest ? entry.start : earliest),
+        null,
+      );
+    const gapEnd = next === null ? window.end : Math.min(next, window.end);
+    gaps.push({ start: cursor, end: gapEnd });
+    cursor = gapEnd;
+  }
+
+  // The seasonal loss is spread evenly over the window, so each leg hedges its share of it.
+  const legs: RollLeg[] = chosen.map(({ candidate, start, end }) => {
+    const lossShare = input.loss_if_event * ((end - start) / windowMs);
+    const quote = computeHedgeQuote({
+      market_id: candidate.market_id,
+      price_yes: candidate.price_yes,
+      price_no: candidate.price_no,
+      side: candidate.side,
+      expected_profit: input.expected_profit * ((end - start) / windowMs),
+      loss_if_event: lossShare,
+      hedge_coverage: input.hedge_coverage,
+      source: candidate.source,
+    });
+    return {
+      market_id: candidate.market_id,
+      title: candidate.title ?? candidate.market_id,
+      start: toIso(start),
+      end: toIso(end),
+      covered_days: (end - start) / DAY_MS,
+      loss_share: lossShare,
+      quote,
+    };
+  });
+
+  const months: RollMonth[] = [];
+  const first = new Date(window.start);
+  let monthStart = Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), 1);
+  while (monthStart < window.end) {
+    const date = new Date(monthStart);
+    const monthEnd = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+    const span = { start: Math.max(monthStart, window.start), end: Math.min(monthEnd, window.end) };
+    const spanMs = Math.max(1, span.end - span.start);
+    const covering = chosen.filter((leg) => overlap(leg, span) > 0);
+    const coverage = Math.min(1, covering.reduce((sum, leg) => sum + overlap(leg, span), 0) / spanMs);
+
+    months.push({
+      month: `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`,
+      label: `${MONTH_LABELS[date.getUTCMonth()]} ${date.getUTCFullYear()}`,
+      coverage,
+      status: coverage >= 0.999 ? "covered" : coverage <= 0.001 ? "gap" : "partial",
+      market_ids: Array.from(new Set(covering.map((leg) => leg.candidate.market_id))),
+    });
+    monthStart = monthEnd;
+  }
+
+  const coveredMs = chosen.reduce((sum, leg) => sum + (leg.end - leg.start), 0);
+
+  return {
+    window_start: toIso(window.start),
+    window_end: toIso(window.end),
+    legs,
+    months,
+    gaps: gaps.map((gap) => ({
+      start: toIso(gap.start),
+      end: toIso(gap.end),
+      days: (gap.end - gap.start) / DAY_MS,
+    })),
+    coverage: coveredMs / windowMs,
+    fully_covered: gaps.length === 0,
+    total_cost: legs.reduce((sum, leg) => sum + leg.quote.total_cost, 0),
+  };
+};
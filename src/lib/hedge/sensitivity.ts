@@ -0,0 +1,182 @@
+import {
+  computeHedgeQuote,
+  type HedgeQuoteInput,
+  type HedgeQuoteOutput,
+} from "@/lib/hedgeCalculator";
+
+export type SensitivityVariable = "price_yes" | "loss_if_event" | "hedge_coverage" | "max_hedge_cost";
+
+export type SensitivityMetric =
+  | "profit_if_event"
+  | "profit_if_no_event"
+  | "expected_value"
+  | "total_cost";
+
+export type SensitivityRange = {
+  low: number;
+  high: number;
+};
+
+export type HedgeSensitivityInput = {
+  base: HedgeQuoteInput;
+  ranges?: Partial<Record<SensitivityVariable, SensitivityRange>>;
+  metric?: SensitivityMetric;
+  steps?: number;
+};
+
+export type SensitivityPoint = {
+  value: number;
+  outcome: number | null;
+  quote: HedgeQuoteOutput | null;
+};
+
+export type SensitivitySeries = {
+  variable: SensitivityVariable;
+  label: string;
+  base_value: number;
+  range: SensitivityRange;
+  points: SensitivityPoint[];
+  low_outcome: number | null;
+  high_outcome: number | null;
+  min_outcome: number;
+  max_outcome: number;
+  swing: number;
+  rank: number;
+};
+
+export type HedgeSensitivityOutput = {
+  metric: SensitivityMetric;
+  base_outcome: number;
+  base_quote: HedgeQuoteOutput;
+  series: SensitivitySeries[];
+};
+
+export const SENSITIVITY_LABELS: Record<SensitivityVariable, string> = {
+  price_yes: "Market price",
+  loss_if_event: "Loss if event",
+  hedge_coverage: "Hedge coverage",
+  max_hedge_cost: "Budget cap",
+};
+
+const SENSITIVITY_ORDER: SensitivityVariable[] = [
+  "price_yes",
+  "loss_if_event",
+  "hedge_coverage",
+  "max_hedge_cost",
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// "What if the price moves 5 cents", "what if the loss is 60% rather than 80%", and so on.
+const defaultRange = (
+  variable: SensitivityVariable,
+  base: HedgeQuoteInput,
+  baseQuote: HedgeQuoteOutput,
+): SensitivityRange => {
+  switch (variable) {
+    case "price_yes":
+      return {
+        low: clamp(base.price_yes - 0.05, 0.01, 0.99),
+        high: clamp(base.price_yes + 0.05, 0.01, 0.99),
+      };
+    case "loss_if_event":
+      return { low: base.loss_if_event * 0.75, high: base.loss_if_event * 1.25 };
+    case "hedge_coverage": {
+      const coverage = typeof base.hedge_coverage === "number" ? base.hedge_coverage : 1;
+      return { low: clamp(coverage - 0.25, 0, 1), high: clamp(coverage + 0.25, 0, 1) };
+    }
+    default: {
+      const budget =
+        typeof base.max_hedge_cost === "number" ? base.max_hedge_cost : baseQuote.total_cost;
+      return { low: budget * 0.5, high: budget * 1.5 };
+    }
+  }
+};
+
+const baseValue = (
+  variable: SensitivityVariable,
+  base: HedgeQuoteInput,
+  baseQuote: HedgeQuoteOutput,
+) => {
+  switch (variable) {
+    case "price_yes":
+      return base.price_yes;
+    case "loss_if_event":
+      return base.loss_if_event;
+    case "hedge_coverage":
+      return typeof base.hedge_coverage === "number" ? base.hedge_coverage : 1;
+    default:
+      return typeof base.max_hedge_cost === "number" ? base.max_hedge_cost : baseQuote.total_cost;
+  }
+};
+
+const withValue = (
+  variable: SensitivityVariable,
+  base: HedgeQuoteInput,
+  value: number,
+): HedgeQuoteInput => {
+  if (variable === "price_yes") {
+    // NO prices, and the book when hedging on NO, move the other way when the YES price moves.
+    const shift = value - base.price_yes;
+    const bookShift = base.side === "no" ? -shift : shift;
+    return {
+      ...base,
+      price_yes: value,
+      price_no: typeof base.price_no === "number" ? clamp(base.price_no - shift, 0.01, 0.99) : base.price_no,
+      order_book: base.order_book?.map((level) => ({
+        ...level,
+        price: clamp(level.price + bookShift, 0.01, 0.99),
+      })),
+    };
+  }
+  return { ...base, [variable]: value };
+};
+
+// One-at-a-time sweeps around the base quote, ranked by how far each input swings the metric.
+export const computeHedgeSensitivity = (input: HedgeSensitivityInput): HedgeSensitivityOutput => {
+  const metric: SensitivityMetric = input.metric ?? "profit_if_event";
+  const steps = Math.max(2, Math.floor(input.steps ?? 5));
+  const baseQuote = computeHedgeQuote(input.base);
+  const baseOutcome = baseQuote[metric];
+
+  const series = SENSITIVITY_ORDER.map((variable) => {
+    const range = input.ranges?.[variable] ?? defaultRange(variable, input.base, baseQuote);
+    const points: SensitivityPoint[] = Array.from({ length: steps }, (_, i) => {
+      const value = range.low + ((range.high - range.low) * i) / (steps - 1);
+      try {
+        const quote = computeHedgeQuote(withValue(variable, input.base, value));
+        return { value, outcome: quote[metric], quote };
+      } catch {
+        return { value, outcome: null, quote: null };
+      }
+    });
+    const outcomes = points
+      .map((point) => point.outcome)
+      .filter((outcome): outcome is number => outcome !== null);
+    const minOutcome = outcomes.length ? Math.min(...outcomes) : baseOutcome;
+    const maxOutcome = outcomes.length ? Math.max(...outcomes) : baseOutcome;
+
+    return {
+      variable,
+      label: SENSITIVITY_LABELS[variable],
+      base_value: baseValue(variable, input.base, baseQuote),
+      range,
+      points,
+      low_outcome: points[0].outcome,
+      high_outcome: points[points.length - 1].outcome,
+      min_outcome: minOutcome,
+      max_outcome: maxOutcome,
+      swing: maxOutcome - minOutcome,
+      rank: 0,
+    };
+  })
+    .sort((a, b) => b.swing - a.swing || a.variable.localeCompare(b.variable))
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+
+  return {
+    metric,
+    base_outcome: baseOutcome,
+    base_quote: baseQuote,
+    series,
+  };
+};
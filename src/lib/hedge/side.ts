@@ -0,0 +1,2 @@
+// The contract side a hedge buys; lives here so hedge/ modules need not import hedgeCalculator.
+export type HedgeSide = "yes" | "no";
@@ -0,0 +1,218 @@
+import type { RankedSignal } from "@/types/hedgi";
+import type { HedgeQuoteOutput } from "@/lib/hedgeCalculator";
+
+export type ProxyStrength = RankedSignal["proxyStrength"];
+
+export type LossSeverity =
+  | { kind: "fixed"; value: number }
+  | { kind: "uniform"; min: number; max: number }
+  | { kind: "lognormal"; mean: number; sd: number };
+
+export type PnlSimulationInput = {
+  quote: HedgeQuoteOutput;
+  expected_profit: number;
+  loss_if_event: number;
+  severity?: LossSeverity;
+  correlation?: number;
+  proxy_strength?: ProxyStrength;
+  loss_probability?: number;
+  trials?: number;
+  seed?: number;
+};
+
+export type PnlPercentiles = {
+  p1: number;
+  p5: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  p95: number;
+  p99: number;
+};
+
+export type PnlDistribution = {
+  mean: number;
+  stdev: number;
+  min: number;
+  max: number;
+  percentiles: PnlPercentiles;
+  samples: number[];
+};
+
+export type PnlSimulationOutput = {
+  trials: number;
+  seed: number;
+  correlation: number;
+  hedge_pays_probability: number;
+  loss_probability: number;
+  joint_probability: number;
+  hedged: PnlDistribution;
+  unhedged: PnlDistribution;
+};
+
+export const PROXY_STRENGTH_CORRELATION: Record<ProxyStrength, number> = {
+  strong: 0.8,
+  partial: 0.5,
+  weak: 0.2,
+};
+
+// mulberry32: small, fast and good enough for reproducible scenario draws.
+export const createRng = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const standardNormal = (rng: () => number) => {
+  const u1 = Math.max(rng(), Number.EPSILON);
+  const u2 = rng();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
+
+// Acklam's rational approximation of the inverse standard normal CDF.
+export const inverseNormalCdf = (p: number): number => {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+const drawSeverity = (severity: LossSeverity, rng: () => number): number => {
+  switch (severity.kind) {
+    case "uniform":
+      return severity.min + rng() * (severity.max - severity.min);
+    case "lognormal": {
+      const variance = Math.log(1 + (severity.sd * severity.sd) / (severity.mean * severity.mean));
+      const mu = Math.log(severity.mean) - variance / 2;
+      return Math.exp(mu + Math.sqrt(variance) * standardNormal(rng));
+    }
+    default:
+      return severity.value;
+  }
+};
+
+export const percentile = (sorted: number[], q: number): number => {
+  if (!sorted.length) return 0;
+  const position = Math.min(sorted.length - 1, Math.max(0, q * (sorted.length - 1)));
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const weight = position - lower;
+  return sorted[lower] * (1 - weight) + sorted[upper] * weight;
+};
+
+const summarize = (samples: number[]): PnlDistribution => {
+  const sorted = samples.slice().sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / Math.max(1, sorted.length);
+  const variance =
+    sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(1, sorted.length - 1);
+
+  return {
+    mean,
+    stdev: Math.sqrt(variance),
+    min: sorted[0] ?? 0,
+    max: sorted[sorted.length - 1] ?? 0,
+    percentiles: {
+      p1: percentile(sorted, 0.01),
+      p5: percentile(sorted, 0.05),
+      p10: percentile(sorted, 0.1),
+      p25: percentile(sorted, 0.25),
+      p50: percentile(sorted, 0.5),
+      p75: percentile(sorted, 0.75),
+      p90: percentile(sorted, 0.9),
+      p95: percentile(sorted, 0.95),
+      p99: percentile(sorted, 0.99),
+    },
+    samples: sorted,
+  };
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// The hedge pays and the loss hits are two correlated Bernoulli draws (Gaussian copula), so a
+// proxy market can pay without a loss or miss a loss entirely.
+export const simulateHedgePnl = (input: PnlSimulationInput): PnlSimulationOutput => {
+  const { quote } = input;
+  const expectedProfit = input.expected_profit;
+  if (!Number.isFinite(expectedProfit)) {
+    throw new Error("invalid_expected_profit");
+  }
+  if (!Number.isFinite(input.loss_if_event) || input.loss_if_event <= 0) {
+    throw new Error("invalid_loss_if_event");
+  }
+
+  const trials = Math.max(1, Math.floor(input.trials ?? 10000));
+  const seed = Math.floor(input.seed ?? 1);
+  const correlation = clamp(
+    typeof input.correlation === "number"
+      ? input.correlation
+      : PROXY_STRENGTH_CORRELATION[input.proxy_strength ?? "strong"],
+    -0.999,
+    0.999,
+  );
+  const hedgePaysProbability = clamp(quote.event_probability, 0, 1);
+  const lossProbability = clamp(
+    typeof input.loss_probability === "number" ? input.loss_probability : hedgePaysProbability,
+    0,
+    1,
+  );
+  const severity: LossSeverity = input.severity ?? { kind: "fixed", value: input.loss_if_event };
+
+  const hedgeThreshold = inverseNormalCdf(hedgePaysProbability);
+  const lossThreshold = inverseNormalCdf(lossProbability);
+  const orthogonal = Math.sqrt(1 - correlation * correlation);
+  const rng = createRng(seed);
+
+  const hedged: number[] = new Array(trials);
+  const unhedged: number[] = new Array(trials);
+  let joint = 0;
+
+  for (let i = 0; i < trials; i += 1) {
+    const z1 = standardNormal(rng);
+    const z2 = correlation * z1 + orthogonal * standardNormal(rng);
+    const hedgePays = z1 < hedgeThreshold;
+    const lossHits = z2 < lossThreshold;
+    if (hedgePays && lossHits) joint += 1;
+
+    const loss = lossHits ? Math.max(0, drawSeverity(severity, rng)) : 0;
+    const base = expectedProfit - loss;
+    unhedged[i] = base;
+    hedged[i] = base - quote.total_cost_with_financing + (hedgePays ? quote.actual_payout : 0);
+  }
+
+  return {
+    trials,
+    seed,
+    correlation,
+    hedge_pays_probability: hedgePaysProbability,
+    loss_probability: lossProbability,
+    joint_probability: joint / trials,
+    hedged: summarize(hedged),
+    unhedged: summarize(unhedged),
+  };
+};
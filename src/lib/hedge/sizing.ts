@@ -0,0 +1,141 @@
+import {
+  computeHedgeQuote,
+  meanVarianceUtility,
+  solveHedgeForBudget,
+  type HedgeQuoteInput,
+  type HedgeQuoteOutput,
+} from "@/lib/hedgeCalculator";
+
+export type UtilityModel = "crra" | "mean_variance";
+
+export type HedgeSizingInput = Omit<HedgeQuoteInput, "hedge_coverage"> & {
+  risk_aversion: number;
+  utility_model?: UtilityModel;
+  subjective_probability?: number | null;
+  wealth?: number | null;
+  steps?: number;
+};
+
+export type HedgeSizingOutput = {
+  utility_model: UtilityModel;
+  risk_aversion: number;
+  event_probability: number;
+  market_probability: number;
+  optimal_coverage: number;
+  gap_from_full: number;
+  contracts_to_buy: number;
+  quote: HedgeQuoteOutput;
+  full_coverage_quote: HedgeQuoteOutput;
+  utility: number;
+  full_coverage_utility: number;
+  unhedged_utility: number;
+  certainty_equivalent: number;
+  explanation: string;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const crra = (wealth: number, gamma: number) => {
+  if (wealth <= 0) return -Infinity;
+  if (Math.abs(gamma - 1) < 1e-9) return Math.log(wealth);
+  return wealth ** (1 - gamma) / (1 - gamma);
+};
+
+const inverseCrra = (utility: number, gamma: number) => {
+  if (!Number.isFinite(utility)) return 0;
+  if (Math.abs(gamma - 1) < 1e-9) return Math.exp(utility);
+  return (utility * (1 - gamma)) ** (1 / (1 - gamma));
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+// solveHedgeForBudget with the budget set to the cost of full coverage (already capped by
+// max_hedge_cost) and, by default, a CRRA utility. CRRA works on terminal wealth, so profits are
+// added to a capital base; by default the larger of the expected profit and the loss, which keeps
+// the worst unhedged outcome solvent.
+export const sizeHedge = (input: HedgeSizingInput): HedgeSizingOutput => {
+  const {
+    risk_aversion: riskAversion,
+    utility_model: utilityModel,
+    subjective_probability: subjective,
+    wealth: wealthInput,
+    steps,
+    max_hedge_cost: _maxHedgeCost,
+    ...quoteInput
+  } = input;
+  if (
+    subjective !== null &&
+    subjective !== undefined &&
+    !(Number.isFinite(subjective) && subjective >= 0 && subjective <= 1)
+  ) {
+    throw new Error("invalid_subjective_probability");
+  }
+
+  const model: UtilityModel = utilityModel === "mean_variance" ? "mean_variance" : "crra";
+  const wealth =
+    typeof wealthInput === "number" && wealthInput > 0
+      ? wealthInput
+      : Math.max(Math.abs(input.expected_profit), input.loss_if_event);
+
+  const fullQuote = computeHedgeQuote({ ...input, hedge_coverage: 1 });
+  const marketProbability = fullQuote.event_probability;
+  const p = clamp(typeof subjective === "number" ? subjective : marketProbability, 0, 1);
+
+  const utilityOf = (quote: HedgeQuoteOutput) =>
+    model === "mean_variance"
+      ? meanVarianceUtility(quote, riskAversion, wealth, p)
+      : p * crra(wealth + quote.profit_if_event, riskAversion) +
+        (1 - p) * crra(wealth + quote.profit_if_no_event, riskAversion);
+
+  const best = solveHedgeForBudget({
+    ...quoteInput,
+    budget: fullQuote.total_cost,
+    risk_aversion: riskAversion,
+    event_probability: p,
+    steps,
+    utility: utilityOf,
+  });
+
+  const fullUtility = utilityOf(fullQuote);
+  const certaintyEquivalent =
+    model === "mean_variance" ? best.utility : inverseCrra(best.utility, riskAversion) - wealth;
+
+  const budgetBound = fullQuote.contracts_to_buy < fullQuote.contracts_needed;
+  const gap = 1 - best.hedge_coverage;
+  const reasons: string[] = [];
+  if (gap <= 0.005) {
+    reasons.push("Full coverage maximizes expected utility at this price.");
+  } else {
+    reasons.push(`The best ratio is ${formatPercent(best.hedge_coverage)}, ${formatPercent(gap)} short of full coverage.`);
+    if (p < marketProbability - 1e-6) {
+      reasons.push(
+        `You put the event at ${formatPercent(p)} but the market prices it at ${formatPercent(marketProbability)}, so each extra contract costs more than you expect it to pay back.`,
+      );
+    } else if (fullQuote.fees > 0 || fullQuote.slippage > 0) {
+      reasons.push("Fees and slippage make the last slice of protection cost more than the risk it removes.");
+    }
+    if (riskAversion === 0) {
+      reasons.push("With zero risk aversion only expected profit matters, so any premium above fair value is skipped.");
+    }
+  }
+  if (budgetBound) {
+    reasons.push(`The budget cap limits the hedge to ${fullQuote.contracts_to_buy} contracts.`);
+  }
+
+  return {
+    utility_model: model,
+    risk_aversion: riskAversion,
+    event_probability: p,
+    market_probability: marketProbability,
+    optimal_coverage: best.hedge_coverage,
+    gap_from_full: gap,
+    contracts_to_buy: best.quote.contracts_to_buy,
+    quote: best.quote,
+    full_coverage_quote: fullQuote,
+    utility: best.utility,
+    full_coverage_utility: fullUtility,
+    unhedged_utility: best.unhedged_utility,
+    certainty_equivalent: certaintyEquivalent,
+    explanation: reasons.join(" "),
+  };
+};
@@ -1,20 +1,56 @@
+import type { MarketSource, MarketStrike } from "@/types/hedgi";
+import { centsToDollars, daysUntil } from "@/lib/format";
+import { getFeeSchedule, type FeeSchedule } from "@/lib/hedge/fees";
+import {
+  normalizeOrderBookLevels,
+  orderBookDepth,
+  walkOrderBook,
+  type OrderBookLevel,
+} from "@/lib/hedge/orderBook";
+import type { HedgeSide } from "@/lib/hedge/side";
+
+export type { HedgeSide };
+
 export type HedgeQuoteInput = {
   market_id: string;
   price_yes: number;
+  price_no?: number | null;
+  side?: HedgeSide;
   expected_profit: number;
   loss_if_event: number;
   hedge_coverage?: number;
   max_hedge_cost?: number | null;
+  source?: MarketSource | null;
+  fee_schedule?: FeeSchedule | null;
+  order_book?: OrderBookLevel[] | null;
+  slippage_warning_threshold?: number;
+  annual_cost_of_capital?: number | null;
+  close_time?: string | null;
 };
 
 export type HedgeQuoteOutput = {
   market_id: string;
+  side: HedgeSide;
   contracts_needed: number;
   contracts_to_buy: number;
   price_yes: number;
+  price_contract: number;
+  event_probability: number;
   target_payout: number;
   actual_payout: number;
+  premium_cost: number;
+  fees: number;
+  fee_schedule: string | null;
   total_cost: number;
+  average_fill_price: number;
+  marginal_price: number;
+  unfilled_contracts: number;
+  slippage: number;
+  slippage_warning: string | null;
+  days_to_settlement: number | null;
+  financing_cost: number;
+  total_cost_with_financing: number;
+  annualized_protection_cost: number | null;
   profit_if_event: number;
   profit_if_no_event: number;
   coverage_achieved: number;
@@ -24,20 +60,58 @@ export type HedgeQuoteOutput = {
 export type HedgeQuotePercentInput = {
   market_id: string;
   price_yes: number;
+  price_no?: number | null;
+  side?: HedgeSide;
   loss_if_event_percent: number;
   hedge_coverage?: number;
   max_hedge_cost?: number | null;
   baseline_loss?: number;
+  source?: MarketSource | null;
+  fee_schedule?: FeeSchedule | null;
+  order_book?: OrderBookLevel[] | null;
+  annual_cost_of_capital?: number | null;
+  close_time?: string | null;
+};
+
+export type HedgeSideAnalysis = {
+  primary_risk_factor?: string | null;
+  is_long?: string | null;
+  is_short?: string | null;
 };
 
 const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
 
+// The business loss event is "market resolves YES" when buying YES and "market resolves NO"
+// when buying NO, so the implied event probability flips with the side.
+const resolveContractPrice = (input: HedgeQuoteInput, side: HedgeSide): number => {
+  if (side === "yes") return input.price_yes;
+  if (typeof input.price_no === "number") {
+    if (!(input.price_no > 0 && input.price_no < 1)) {
+      throw new Error("invalid_price_no");
+    }
+    return input.price_no;
+  }
+  return 1 - input.price_yes;
+};
+
+// Accepts 0.05 or 5 for 5% a year.
+const normalizeAnnualRate = (value: number | null | undefined): number | null => {
+  if (value === null || value === undefined) return null;
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error("invalid_annual_cost_of_capital");
+  }
+  return value > 1 ? value / 100 : value;
+};
+
 export const computeHedgeQuote = (input: HedgeQuoteInput): HedgeQuoteOutput => {
   const priceYes = input.price_yes;
   if (!(priceYes > 0 && priceYes < 1)) {
     throw new Error("invalid_price_yes");
   }
 
+  const side: HedgeSide = input.side === "no" ? "no" : "yes";
+  const priceContract = resolveContractPrice(input, side);
+
   const expectedProfit = input.expected_profit;
   if (!Number.isFinite(expectedProfit) || expectedProfit < -1e12 || expectedProfit > 1e12) {
     throw new Error("invalid_expected_profit");
@@ -56,31 +130,113 @@ export const computeHedgeQuote = (input: HedgeQuoteInput): HedgeQuoteOutput => {
 
   const maxCost = typeof input.max_hedge_cost === "number" ? Math.max(0, input.max_hedge_cost) : null;
 
+  const feeSchedule = input.fee_schedule ?? getFeeSchedule(input.source);
+  const orderBook = input.order_book?.length ? normalizeOrderBookLevels(input.order_book) : [];
+  const hasOrderBook = orderBook.length > 0;
+  const bestPrice = hasOrderBook ? orderBook[0].price : priceContract;
+
+  const costFor = (contracts: number) => {
+    if (hasOrderBook) {
+      const fill = walkOrderBook(orderBook, contracts, feeSchedule);
+      return {
+        premium: fill.premium,
+        fees: fill.fees,
+        total: fill.premium + fill.fees,
+        averagePrice: fill.average_price ?? bestPrice,
+        marginalPrice: fill.marginal_price ?? bestPrice,
+      };
+    }
+    const premium = contracts * priceContract;
+    const fees = feeSchedule ? feeSchedule.feeFor(contracts, priceContract) : 0;
+    return {
+      premium,
+      fees,
+      total: premium + fees,
+      averagePrice: priceContract,
+      marginalPrice: priceContract,
+    };
+  };
+
   const targetPayout = lossIfEvent * hedgeCoverage;
   const contractsNeeded = Math.ceil(targetPayout);
+  const fillableContracts = hasOrderBook
+    ? Math.min(contractsNeeded, orderBookDepth(orderBook))
+    : contractsNeeded;
+  const unfilledContracts = contractsNeeded - fillableContracts;
 
-  let contractsToBuy = contractsNeeded;
+  let contractsToBuy = fillableContracts;
   if (maxCost !== null) {
-    contractsToBuy = Math.min(contractsNeeded, Math.floor(maxCost / priceYes));
+    // Fees and book prices only grow with size, so search for the largest count that fits.
+    let low = 0;
+    let high = Math.min(fillableContracts, Math.floor(maxCost / bestPrice));
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (costFor(mid).total <= maxCost + 1e-9) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    contractsToBuy = low;
   }
 
   const actualPayout = contractsToBuy;
-  const totalCost = contractsToBuy * priceYes;
-  const profitIfEvent = expectedProfit - lossIfEvent + actualPayout - totalCost;
-  const profitIfNoEvent = expectedProfit - totalCost;
+  const cost = costFor(contractsToBuy);
+  const totalCost = cost.total;
+  const slippage = Math.max(0, cost.averagePrice - bestPrice);
+  const slippageThreshold =
+    typeof input.slippage_warning_threshold === "number" ? input.slippage_warning_threshold : 0.02;
+
+  let slippageWarning: string | null = null;
+  if (unfilledContracts > 0) {
+    slippageWarning = `Order book only holds ${fillableContracts} contracts; ${unfilledContracts} would stay unfilled.`;
+  } else if (hasOrderBook && slippage >= slippageThreshold) {
+    slippageWarning = `Average fill is ${(slippage * 100).toFixed(1)}¢ above the best ask.`;
+  }
+
+  // Premiums sit locked until settlement, so charge simple interest on the outlay for that long.
+  const annualRate = normalizeAnnualRate(input.annual_cost_of_capital);
+  const daysToSettlement = input.close_time ? Math.max(0, daysUntil(input.close_time)) : null;
+  const financingCost =
+    annualRate !== null && daysToSettlement !== null
+      ? totalCost * annualRate * (daysToSettlement / 365)
+      : 0;
+  const totalCostWithFinancing = totalCost + financingCost;
+  const annualizedProtectionCost =
+    daysToSettlement && actualPayout > 0
+      ? (totalCostWithFinancing / actualPayout) * (365 / daysToSettlement)
+      : null;
+
+  const profitIfEvent = expectedProfit - lossIfEvent + actualPayout - totalCostWithFinancing;
+  const profitIfNoEvent = expectedProfit - totalCostWithFinancing;
   const coverageAchieved = lossIfEvent > 0 ? actualPayout / lossIfEvent : 0;
 
-  const pEvent = clamp(priceYes, 0, 1);
+  const pEvent = clamp(side === "yes" ? priceYes : 1 - priceYes, 0, 1);
   const expectedValue = pEvent * profitIfEvent + (1 - pEvent) * profitIfNoEvent;
 
   return {
     market_id: input.market_id,
+    side,
     contracts_needed: contractsNeeded,
     contracts_to_buy: contractsToBuy,
     price_yes: priceYes,
+    price_contract: priceContract,
+    event_probability: pEvent,
     target_payout: targetPayout,
     actual_payout: actualPayout,
+    premium_cost: cost.premium,
+    fees: cost.fees,
+    fee_schedule: feeSchedule ? feeSchedule.id : null,
     total_cost: totalCost,
+    average_fill_price: cost.averagePrice,
+    marginal_price: cost.marginalPrice,
+    unfilled_contracts: unfilledContracts,
+    slippage,
+    slippage_warning: slippageWarning,
+    days_to_settlement: daysToSettlement,
+    financing_cost: financingCost,
+    total_cost_with_financing: totalCostWithFinancing,
+    annualized_protection_cost: annualizedProtectionCost,
     profit_if_event: profitIfEvent,
     profit_if_no_event: profitIfNoEvent,
     coverage_achieved: coverageAchieved,
@@ -88,6 +244,49 @@ export const computeHedgeQuote = (input: HedgeQuoteInput): HedgeQuoteOutput => {
   };
 };
 
+const SIDE_STOPWORDS = new Set(["the", "and", "for", "with", "will", "than", "price", "prices"]);
+const DOWNWARD_TERMS = ["below", "under", "less", "fewer", "fall", "drop", "decline", "lower"];
+
+const sideTokens = (value: string | null | undefined): string[] =>
+  (value || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((token) => token.length > 2 && !SIDE_STOPWORDS.has(token));
+
+const overlapCount = (titleTokens: string[], phrase: string | null | undefined): number => {
+  const tokens = sideTokens(phrase);
+  return tokens.filter((token) =>
+    titleTokens.some(
+      (titleToken) =>
+        titleToken === token ||
+        (token.length >= 4 && titleToken.startsWith(token)) ||
+        (titleToken.length >= 4 && token.startsWith(titleToken)),
+    ),
+  ).length;
+};
+
+// Picks YES when the market resolving YES is the bad outcome for the business, NO otherwise.
+export const inferHedgeSide = (
+  title: string,
+  analysis: HedgeSideAnalysis | null | undefined,
+  strike?: MarketStrike | null,
+): HedgeSide => {
+  if (!analysis) return "yes";
+  const titleTokens = sideTokens(title);
+  const downward =
+    strike?.parsed && strike.comparator !== "between"
+      ? strike.comparator === "below"
+      : titleTokens.some((token) => DOWNWARD_TERMS.includes(token));
+  const longOverlap = overlapCount(titleTokens, analysis.is_long);
+  const shortOverlap = overlapCount(titleTokens, analysis.is_short);
+
+  if (longOverlap === 0 && shortOverlap === 0) return "yes";
+  const tracksHelpfulVariable = longOverlap > shortOverlap;
+  const yesIsBad = tracksHelpfulVariable ? downward : !downward;
+  return yesIsBad ? "yes" : "no";
+};
+
 export const computeHedgeQuotePercent = (
   input: HedgeQuotePercentInput,
 ): HedgeQuoteOutput => {
@@ -107,9 +306,394 @@ export const computeHedgeQuotePercent = (
   return computeHedgeQuote({
     market_id: input.market_id,
     price_yes: input.price_yes,
+    price_no: input.price_no,
+    side: input.side,
     expected_profit: 0,
     loss_if_event: lossIfEvent,
     hedge_coverage: input.hedge_coverage,
     max_hedge_cost: input.max_hedge_cost,
+    source: input.source,
+    fee_schedule: input.fee_schedule,
+    order_book: input.order_book,
+    annual_cost_of_capital: input.annual_cost_of_capital,
+    close_time: input.close_time,
+  });
+};
+
+export type HedgeSolverOutput = {
+  feasible: boolean;
+  reason: string | null;
+  message: string | null;
+  hedge_coverage: number;
+  contracts_to_buy: number;
+  quote: HedgeQuoteOutput;
+};
+
+export type HedgeProfitFloorInput = Omit<HedgeQuoteInput, "hedge_coverage"> & {
+  profit_floor: number;
+};
+
+export type HedgeBudgetInput = Omit<HedgeQuoteInput, "hedge_coverage" | "max_hedge_cost"> & {
+  budget: number;
+  risk_aversion?: number;
+  event_probability?: number | null;
+  steps?: number;
+  // Replaces the default meanVarianceUtility, e.g. with a CRRA utility over terminal wealth.
+  utility?: (quote: HedgeQuoteOutput) => number;
+};
+
+export type HedgeBudgetOutput = HedgeSolverOutput & {
+  utility: number;
+  unhedged_utility: number;
+};
+
+const formatDollars = (value: number) => `$${value.toFixed(2)}`;
+
+// Slightly under n so the ceil inside computeHedgeQuote lands on exactly n contracts.
+const coverageForContracts = (contracts: number, lossIfEvent: number) =>
+  contracts <= 0 ? 0 : clamp((contracts - 1e-6) / lossIfEvent, 0, 1);
+
+const quoteForContracts = (
+  input: HedgeQuoteInput,
+  contracts: number,
+  maxHedgeCost: number | null = null,
+) =>
+  computeHedgeQuote({
+    ...input,
+    hedge_coverage: coverageForContracts(contracts, input.loss_if_event),
+    max_hedge_cost: maxHedgeCost,
+  });
+
+const solverResult = (
+  quote: HedgeQuoteOutput,
+  lossIfEvent: number,
+  reason: string | null = null,
+  message: string | null = null,
+): HedgeSolverOutput => ({
+  feasible: reason === null,
+  reason,
+  message,
+  hedge_coverage: lossIfEvent > 0 ? Math.min(1, quote.contracts_to_buy / lossIfEvent) : 0,
+  contracts_to_buy: quote.contracts_to_buy,
+  quote,
+});
+
+// Cheapest contract count whose event-side profit clears the floor. Profit if the event hits
+// rises with each contract as long as price plus fees stays under the $1 payout.
+export const solveHedgeForProfitFloor = (input: HedgeProfitFloorInput): HedgeSolverOutput => {
+  const floor = input.profit_floor;
+  if (!Number.isFinite(floor)) {
+    throw new Error("invalid_profit_floor");
+  }
+
+  const unhedged = quoteForContracts(input, 0);
+  if (unhedged.profit_if_event >= floor) {
+    return solverResult(unhedged, input.loss_if_event);
+  }
+
+  const full = quoteForContracts(input, Math.ceil(input.loss_if_event));
+  if (full.profit_if_event < floor) {
+    if (full.profit_if_event <= unhedged.profit_if_event) {
+      return solverResult(
+        full,
+        input.loss_if_event,
+        "price_too_high",
+        `Each contract costs ${formatDollars(full.average_fill_price)} plus fees, so buying more never raises the event outcome.`,
+      );
+    }
+    if (full.unfilled_contracts > 0) {
+      return solverResult(
+        full,
+        input.loss_if_event,
+        "insufficient_depth",
+        `The order book runs out at ${full.contracts_to_buy} contracts, which only reaches ${formatDollars(full.profit_if_event)} if the event hits.`,
+      );
+    }
+    return solverResult(
+      full,
+      input.loss_if_event,
+      "floor_above_full_coverage",
+      `Even full coverage only reaches ${formatDollars(full.profit_if_event)} if the event hits.`,
+    );
+  }
+
+  let low = 1;
+  let high = full.contracts_to_buy;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (quoteForContracts(input, mid).profit_if_event >= floor) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+
+  const quote = quoteForContracts(input, low);
+  const maxCost = typeof input.max_hedge_cost === "number" ? Math.max(0, input.max_hedge_cost) : null;
+  if (maxCost !== null && quote.total_cost > maxCost + 1e-9) {
+    return solverResult(
+      quote,
+      input.loss_if_event,
+      "over_budget",
+      `Reaching the floor needs ${formatDollars(quote.total_cost)}, above the ${formatDollars(maxCost)} budget.`,
+    );
+  }
+  return solverResult(quote, input.loss_if_event);
+};
+
+// Mean-variance utility over the two quoted outcomes. risk_aversion is relative: it is scaled by
+// the size of the business so the same setting works for a $10k and a $10M operation.
+export const meanVarianceUtility = (
+  quote: HedgeQuoteOutput,
+  riskAversion: number,
+  wealth: number,
+  eventProbability: number = quote.event_probability,
+): number => {
+  const p = clamp(eventProbability, 0, 1);
+  const mean = p * quote.profit_if_event + (1 - p) * quote.profit_if_no_event;
+  const spread = quote.profit_if_event - quote.profit_if_no_event;
+  const variance = p * (1 - p) * spread * spread;
+  return mean - (riskAversion / (2 * Math.max(1, Math.abs(wealth)))) * variance;
+};
+
+// Grid over coverage at the budget cap, then an integer ternary search between the neighbours of
+// the best grid point.
+export const solveHedgeForBudget = (input: HedgeBudgetInput): HedgeBudgetOutput => {
+  const budget = input.budget;
+  if (!Number.isFinite(budget) || budget < 0) {
+    throw new Error("invalid_budget");
+  }
+  const riskAversion = typeof input.risk_aversion === "number" ? input.risk_aversion : 2;
+  if (!Number.isFinite(riskAversion) || riskAversion < 0) {
+    throw new Error("invalid_risk_aversion");
+  }
+  const steps = Math.max(1, Math.floor(input.steps ?? 100));
+  const wealth = Math.max(Math.abs(input.expected_profit), input.loss_if_event);
+  const probability =
+    typeof input.event_probability === "number" ? input.event_probability : undefined;
+
+  const utilityOf =
+    input.utility ??
+    ((quote: HedgeQuoteOutput) => meanVarianceUtility(quote, riskAversion, wealth, probability));
+
+  const unhedged = quoteForContracts(input, 0);
+  const unhedgedUtility = utilityOf(unhedged);
+  const withUtility = (result: HedgeSolverOutput, utility: number): HedgeBudgetOutput => ({
+    ...result,
+    utility,
+    unhedged_utility: unhedgedUtility,
+  });
+
+  const capped = computeHedgeQuote({ ...input, hedge_coverage: 1, max_hedge_cost: budget });
+  const maxContracts = capped.contracts_to_buy;
+  if (maxContracts === 0) {
+    return withUtility(
+      solverResult(
+        unhedged,
+        input.loss_if_event,
+        "budget_below_one_contract",
+        `A ${formatDollars(budget)} budget does not cover a single contract at ${formatDollars(capped.price_contract)}.`,
+      ),
+      unhedgedUtility,
+    );
+  }
+
+  const cache = new Map<number, { quote: HedgeQuoteOutput; utility: number }>();
+  const evaluate = (contracts: number) => {
+    let entry = cache.get(contracts);
+    if (!entry) {
+      const quote = quoteForContracts(input, contracts);
+      entry = { quote, utility: utilityOf(quote) };
+      cache.set(contracts, entry);
+    }
+    return entry;
+  };
+
+  const grid = Array.from(new Set(
+    Array.from({ length: steps + 1 }, (_, i) => Math.round((maxContracts * i) / steps)),
+  ));
+  let bestIndex = 0;
+  grid.forEach((contracts, index) => {
+    if (evaluate(contracts).utility > evaluate(grid[bestIndex]).utility) bestIndex = index;
   });
+
+  let low = grid[Math.max(0, bestIndex - 1)];
+  let high = grid[Math.min(grid.length - 1, bestIndex + 1)];
+  while (high - low > 2) {
+    const left = low + Math.floor((high - low) / 3);
+    const right = high - Math.floor((high - low) / 3);
+    if (evaluate(left).utility < evaluate(right).utility) {
+      low = left;
+    } else {
+      high = right;
+    }
+  }
+  let best = grid[bestIndex];
+  for (let contracts = low; contracts <= high; contracts += 1) {
+    if (evaluate(contracts).utility > evaluate(best).utility) best = contracts;
+  }
+
+  const { quote, utility } = evaluate(best);
+  const message =
+    best === 0 ? "Hedging lowers expected utility at this price, so the best use of the budget is none." : null;
+  return withUtility(solverResult(quote, input.loss_if_event, null, message), utility);
+};
+
+export type HedgeBasketCandidate = {
+  market_id: string;
+  price_yes: number;
+  relevance_score: number;
+  hedging_utility_score: number;
+};
+
+export type HedgeBasketInput = {
+  candidates: HedgeBasketCandidate[];
+  expected_profit: number;
+  loss_if_event: number;
+  budget?: number | null;
+  hedge_coverage?: number;
+};
+
+export type HedgeBasketLeg = {
+  market_id: string;
+  price_yes: number;
+  weight: number;
+  contracts_to_buy: number;
+  cost: number;
+  max_payout: number;
+  effective_payout: number;
+};
+
+export type HedgeBasketOutput = {
+  legs: HedgeBasketLeg[];
+  target_payout: number;
+  effective_payout: number;
+  max_payout: number;
+  total_cost: number;
+  profit_if_event: number;
+  profit_if_no_event: number;
+  coverage_achieved: number;
+  budget_exhausted: boolean;
+};
+
+// Scores are 0-10; a market only offsets the loss in proportion to how well it proxies it.
+export const basketWeight = (relevanceScore: number, hedgingUtilityScore: number): number =>
+  clamp(relevanceScore / 10, 0, 1) * clamp(hedgingUtilityScore / 10, 0, 1);
+
+// The fields of a scored pipeline market the basket reads; ScoredMarket satisfies it.
+// Prices are Kalshi cents.
+export type BasketSourceMarket = {
+  ticker: string;
+  market_ticker?: string | null;
+  price_yes?: number | null;
+  relevance_score: number;
+  hedging_utility_score: number;
+};
+
+export const basketCandidatesFromScoredMarkets = (
+  markets: BasketSourceMarket[],
+): HedgeBasketCandidate[] =>
+  markets
+    .map((market) => ({
+      market_id: market.market_ticker || market.ticker,
+      price_yes: centsToDollars(market.price_yes),
+      relevance_score: market.relevance_score,
+      hedging_utility_score: market.hedging_utility_score,
+    }))
+    .filter((candidate): candidate is HedgeBasketCandidate => candidate.price_yes !== null);
+
+export const computeHedgeBasket = (input: HedgeBasketInput): HedgeBasketOutput => {
+  const expectedProfit = input.expected_profit;
+  if (!Number.isFinite(expectedProfit) || expectedProfit < -1e12 || expectedProfit > 1e12) {
+    throw new Error("invalid_expected_profit");
+  }
+
+  const lossIfEvent = input.loss_if_event;
+  if (!Number.isFinite(lossIfEvent) || lossIfEvent <= 0) {
+    throw new Error("invalid_loss_if_event");
+  }
+
+  const hedgeCoverage = clamp(
+    typeof input.hedge_coverage === "number" ? input.hedge_coverage : 1,
+    0,
+    1,
+  );
+  const budget = typeof input.budget === "number" ? Math.max(0, input.budget) : null;
+
+  const candidates = (input.candidates ?? [])
+    .filter((candidate) => candidate.price_yes > 0 && candidate.price_yes < 1)
+    .map((candidate) => ({
+      ...candidate,
+      weight: basketWeight(candidate.relevance_score, candidate.hedging_utility_score),
+    }))
+    .filter((candidate) => candidate.weight > 0);
+
+  if (!candidates.length) {
+    throw new Error("empty_basket");
+  }
+
+  // Cheapest effective coverage first: price paid per dollar of loss actually offset.
+  candidates.sort(
+    (a, b) =>
+      a.price_yes / a.weight - b.price_yes / b.weight || a.market_id.localeCompare(b.market_id),
+  );
+
+  const targetPayout = lossIfEvent * hedgeCoverage;
+  const maxContractsPerMarket = Math.ceil(targetPayout);
+
+  let remainingTarget = targetPayout;
+  let remainingBudget = budget;
+  let budgetExhausted = false;
+  const legs: HedgeBasketLeg[] = [];
+
+  for (const candidate of candidates) {
+    if (remainingTarget <= 0) break;
+
+    let contracts = Math.min(
+      maxContractsPerMarket,
+      Math.ceil(remainingTarget / candidate.weight),
+    );
+    if (remainingBudget !== null) {
+      const affordable = Math.floor(remainingBudget / candidate.price_yes);
+      if (affordable < contracts) {
+        contracts = affordable;
+        budgetExhausted = true;
+      }
+    }
+    if (contracts <= 0) continue;
+
+    const cost = contracts * candidate.price_yes;
+    const effectivePayout = contracts * candidate.weight;
+    remainingTarget -= effectivePayout;
+    if (remainingBudget !== null) remainingBudget -= cost;
+
+    legs.push({
+      market_id: candidate.market_id,
+      price_yes: candidate.price_yes,
+      weight: candidate.weight,
+      contracts_to_buy: contracts,
+      cost,
+      max_payout: contracts,
+      effective_payout: effectivePayout,
+    });
+  }
+
+  const totalCost = legs.reduce((sum, leg) => sum + leg.cost, 0);
+  const effectivePayout = Math.min(
+    lossIfEvent,
+    legs.reduce((sum, leg) => sum + leg.effective_payout, 0),
+  );
+  const maxPayout = legs.reduce((sum, leg) => sum + leg.max_payout, 0);
+
+  return {
+    legs,
+    target_payout: targetPayout,
+    effective_payout: effectivePayout,
+    max_payout: maxPayout,
+    total_cost: totalCost,
+    profit_if_event: expectedProfit - lossIfEvent + effectivePayout - totalCost,
+    profit_if_no_event: expectedProfit - totalCost,
+    coverage_achieved: effectivePayout / lossIfEvent,
+    budget_exhausted: budgetExhausted,
+  };
 };
@@ -2,15 +2,18 @@ import type {
   BusinessProfile,
   CategoryId,
   CategoryMatch,
+  GeoTag,
   Market,
   RankedSignal,
   RankedSignalPartial,
 } from "@/types/hedgi";
 import { CATEGORY_DEFINITIONS, inferCategoriesFromProfile } from "@/lib/categories";
-import { fetchActiveMarketsByCategories as fetchKalshiMarkets } from "@/lib/providers/kalshi.mock";
-import { fetchKalshiMarketsReal } from "@/lib/providers/kalshi.real";
-import { fetchActiveMarketsByCategories as fetchPolymarketMarkets } from "@/lib/providers/polymarket.mock";
+import { fetchMarketsFromProviders, type ProviderFanOutResult } from "@/lib/providers/registry";
 import { daysUntil } from "@/lib/format";
+import { groupEquivalentListings, listingFromMarket } from "@/lib/pipeline/venueMatching";
+import { parseMarketTitle } from "@/lib/pipeline/titleParser";
+import { geoAdjustment, tagLocations } from "@/lib/pipeline/geoTagging";
+import { logDebug } from "@/lib/pipeline/snapshotPipeline";
 
 const STOPWORDS = new Set([
   "the", "and", "for", "with", "that", "this", "from", "your", "into", "over", "under", "above",
@@ -33,19 +36,6 @@ const MONTH_MAP: Record<string, number> = {
   dec: 12, december: 12,
 };
 
-const STATE_REGION_MAP: Record<string, string> = {
-  florida: "US-SE",
-  texas: "US-South",
-  california: "US-West",
-  colorado: "US-Mountain",
-  iowa: "US-Midwest",
-  kansas: "US-Midwest",
-  "new york": "US-Northeast",
-  georgia: "US-SE",
-  louisiana: "US-Gulf",
-  massachusetts: "US-Northeast",
-};
-
 const INDUSTRY_HINTS: Array<{ keyword: string; industry: string }> = [
   { keyword: "farm", industry: "agriculture" },
   { keyword: "crop", industry: "agriculture" },
@@ -94,13 +84,17 @@ const detectRevenueSeason = (input: string) => {
 };
 
 const detectLocation = (input: string): { location: string | null; region: string | null } => {
-  const lower = input.toLowerCase();
-  for (const [state, region] of Object.entries(STATE_REGION_MAP)) {
-    if (lower.includes(state)) {
-      return { location: state, region };
-    }
+  const tag = tagLocations(input).find((item) => item.region);
+  return tag ? { location: tag.name, region: tag.region } : { location: null, region: null };
+};
+
+// Gemini profiles may carry only a region id ("US-SE"), which the gazetteer does not name.
+const profileGeoTags = (profile: BusinessProfile): GeoTag[] => {
+  const tags = tagLocations([profile.location, profile.rawInput].filter(Boolean).join(" "));
+  if (!tags.some((tag) => tag.region) && profile.region) {
+    tags.push({ scope: "region", name: profile.region, state: null, region: profile.region });
   }
-  return { location: null, region: null };
+  return tags;
 };
 
 const detectExposures = (input: string): string[] => {
@@ -298,6 +292,18 @@ const hygieneFilter = (markets: Market[]): Market[] => {
   });
 };
 
+// Exact-title dedupe misses the same event listed on both venues; keep the more liquid listing
+// and carry the rest along so the signal can show every venue's price.
+const mergeCrossVenue = (markets: Market[]): Array<{ market: Market; venues: Market[] }> => {
+  const byId = new Map(markets.map((market) => [market.id, market]));
+  return groupEquivalentListings(markets.map(listingFromMarket)).map((group) => {
+    const members = group.listings
+      .map((listing) => byId.get(listing.id))
+      .sort((a, b) => (b.liquidity ?? 0) - (a.liquidity ?? 0));
+    return { market: members[0], venues: members.slice(1) };
+  });
+};
+
 const relevanceScoreStub = (
   profile: BusinessProfile,
   market: Market,
@@ -315,7 +321,15 @@ const relevanceScoreStub = (
   profile.keywords.forEach((keyword) => matchedKeywords.add(keyword));
   profile.exposures.forEach((risk) => matchedKeywords.add(risk));
 
-  const titleTokens = new Set(tokenize(market.title));
+  // Strike numbers and dates only dilute keyword overlap; score the parsed metric and place.
+  const strike = market.strike;
+  const titleTokens = new Set(
+    tokenize(
+      strike?.parsed && strike.metric
+        ? [strike.metric, strike.location].filter(Boolean).join(" ")
+        : market.title,
+    ),
+  );
   let overlap = 0;
   titleTokens.forEach((token) => {
     if (matchedKeywords.has(token)) overlap += 1;
@@ -324,8 +338,9 @@ const relevanceScoreStub = (
   const base = overlap / Math.max(4, titleTokens.size);
   const topCategory = categories[0]?.id;
   const categoryBoost = topCategory && market.categoryId === topCategory ? 0.15 : 0;
+  const geo = geoAdjustment(profileGeoTags(profile), market.locations ?? []);
 
-  return Math.min(1, base + categoryBoost);
+  return clamp(base + categoryBoost + geo, 0, 1);
 };
 
 const liquidityScore = (market: Market): number => {
@@ -355,27 +370,40 @@ const mappedRiskFromProfile = (profile: BusinessProfile, categoryId: CategoryId)
   return category ? category.label : "market risk";
 };
 
-export const buildRankedSignals = async (input: string): Promise<RankedSignal[]> => {
+export type RankedSignalsResult = {
+  signals: RankedSignal[];
+  providers: ProviderFanOutResult["meta"];
+};
+
+export const buildRankedSignals = async (input: string): Promise<RankedSignal[]> =>
+  (await buildRankedSignalsWithMeta(input)).signals;
+
+export const buildRankedSignalsWithMeta = async (input: string): Promise<RankedSignalsResult> => {
   const profile = await extractBusinessProfileWithGemini(input).catch(() =>
     mockExtractBusinessProfile(input),
   );
   const categoryMatches = inferCategoriesFromProfile(profile);
   const topCategories = categoryMatches.slice(0, 3).map((match) => match.id);
 
-  const useRealKalshi = import.meta.env.VITE_USE_REAL_KALSHI === "true";
-  const kalshiMarkets = useRealKalshi
-    ? await fetchKalshiMarketsReal(topCategories).catch(() => [])
-    : await fetchKalshiMarkets(topCategories);
-  const polymarketMarkets = await fetchPolymarketMarkets(topCategories);
-
-  const resolvedKalshiMarkets =
-    useRealKalshi && kalshiMarkets.length === 0
-      ? await fetchKalshiMarkets(topCategories)
-      : kalshiMarkets;
+  const providerResult = await fetchMarketsFromProviders(topCategories);
+  // Failures stay in the returned meta; the log is for VITE_DEBUG sessions only.
+  for (const meta of providerResult.meta) {
+    if (meta.error) logDebug(`provider ${meta.provider} (${meta.mode}) failed`, meta.error);
+  }
 
-  const filteredMarkets = hygieneFilter([...resolvedKalshiMarkets, ...polymarketMarkets]);
+  const merged = mergeCrossVenue(
+    hygieneFilter(providerResult.markets).map((market) => ({
+      ...market,
+      strike: market.strike ?? parseMarketTitle(market.title),
+      locations: market.locations ?? tagLocations(market.title),
+    })),
+  );
+  const filteredMarkets = merged.map((entry) => entry.market);
+  const venuesById = new Map(merged.map((entry) => [entry.market.id, entry.venues]));
 
-  const geminiRanked = await rankMarketsWithGemini(profile, filteredMarkets).catch(() => []);
+  const geminiRanked = await rankMarketsWithGemini(profile, filteredMarkets).catch(
+    (): RankedSignalPartial[] => [],
+  );
   const geminiMap = new Map(geminiRanked.map((item) => [item.marketId, item]));
 
   const ranked = filteredMarkets.map((market) => {
@@ -408,10 +436,14 @@ export const buildRankedSignals = async (input: string): Promise<RankedSignal[]>
       signalScore: Number(signalScore.toFixed(3)),
       mappedRisk,
       rationale,
+      venues: venuesById.get(market.id) ?? [],
     };
   });
 
-  return ranked.sort((a, b) => b.signalScore - a.signalScore);
+  return {
+    signals: ranked.sort((a, b) => b.signalScore - a.signalScore),
+    providers: providerResult.meta,
+  };
 };
 
 if (import.meta.env.DEV && typeof window !== "undefined") {
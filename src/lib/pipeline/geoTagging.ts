@@ -0,0 +1,13 @@
+import * as geo from "../../../server/lib/geo.js";
+import type { GeoTag } from "@/types/hedgi";
+
+// Typed view of server/lib/geo.js, so the browser and the backend scorer share one matcher.
+export const GEO_ADJUSTMENTS: Record<"city" | "state" | "region" | "neighbor" | "mismatch", number> =
+  geo.GEO_ADJUSTMENTS;
+
+// Every gazetteer place named in the text, in reading order.
+export const tagLocations: (text: string | null | undefined) => GeoTag[] = geo.tagLocations;
+
+// 0 when either side has no local tag: national and global markets are broad proxies, not misses.
+export const geoAdjustment: (businessTags: GeoTag[], marketTags: GeoTag[]) => number =
+  geo.geoAdjustment;
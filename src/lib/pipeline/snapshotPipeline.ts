@@ -1,9 +1,51 @@
-export type KeywordMatchMarket = {
+import type { CategoryId, MarketStrike } from "@/types/hedgi";
+import { CATEGORY_DEFINITIONS } from "@/lib/categories";
+import { fetchMarketsFromProviders, getProviders } from "@/lib/providers/registry";
+import {
+  groupEquivalentListings,
+  listingFromMarket,
+  type VenueListing,
+  type VenueMatch,
+} from "@/lib/pipeline/venueMatching";
+import { parseMarketTitle } from "@/lib/pipeline/titleParser";
+import { centsToDollars } from "@/lib/format";
+
+export { centsToDollars };
+
+export type EventStrike = {
+  market_ticker: string;
+  title?: string | null;
+  subtitle?: string | null;
+  strike_type?: string | null;
+  floor_strike?: number | null;
+  cap_strike?: number | null;
+  price_yes?: number | null;
+  price_no?: number | null;
+  close_time?: string | null;
+  open_time?: string | null;
+};
+
+// Raw Kalshi units: bid/ask/last and liquidity in cents, volume and open interest in contracts.
+export type MarketQuote = {
+  yes_bid?: number | null;
+  yes_ask?: number | null;
+  last_price?: number | null;
+  volume?: number | null;
+  volume_24h?: number | null;
+  open_interest?: number | null;
+  liquidity?: number | null;
+};
+
+export type KeywordMatchMarket = MarketQuote & {
   platform: string;
   ticker: string;
   title: string;
   market_ticker?: string | null;
   price_yes?: number | null;
+  price_no?: number | null;
+  close_time?: string | null;
+  open_time?: string | null;
+  strikes?: EventStrike[];
 };
 
 export type HedgeInputs = {
@@ -14,7 +56,7 @@ export type HedgeInputs = {
   max_hedge_cost: number | null;
 };
 
-export type ScoredMarket = {
+export type ScoredMarket = MarketQuote & {
   platform: string;
   ticker: string;
   title: string;
@@ -25,6 +67,20 @@ export type ScoredMarket = {
   reasoning: string;
   market_ticker?: string | null;
   price_yes?: number | null;
+  price_no?: number | null;
+  close_time?: string | null;
+  open_time?: string | null;
+  strikes?: EventStrike[];
+  // Structured read of `title`; replaced by the chosen strike's bounds when one is picked.
+  title_strike?: MarketStrike;
+  venues?: VenueListing[];
+  venue_match?: VenueMatch | null;
+};
+
+export type RiskAnalysis = {
+  primary_risk_factor: string | null;
+  is_long: string | null;
+  is_short: string | null;
 };
 
 export type SnapshotResult = {
@@ -33,6 +89,9 @@ export type SnapshotResult = {
   matches: KeywordMatchMarket[];
   scoredMarkets: ScoredMarket[];
   inputs: HedgeInputs | null;
+  analysis: RiskAnalysis | null;
+  // Scored markets dropped by isIlliquid.
+  illiquidMarkets: ScoredMarket[];
 };
 
 type ScoreMarketsResponse = {
@@ -40,6 +99,7 @@ type ScoreMarketsResponse = {
   markets?: KeywordMatchMarket[];
   scored_markets?: ScoredMarket[];
   inputs?: HedgeInputs | null;
+  analysis?: RiskAnalysis | null;
 };
 
 const DEBUG_MODE = import.meta.env.VITE_DEBUG === "true";
@@ -70,7 +130,7 @@ const postJson = async <T,>(url: string, body: unknown): Promise<T> => {
   return payload as T;
 };
 
-const logDebug = (label: string, value: unknown) => {
+export const logDebug = (label: string, value: unknown) => {
   if (!DEBUG_MODE) return;
   if (typeof console !== "undefined") {
     console.log(label, value);
@@ -113,6 +173,79 @@ const normalizeInputs = (value: unknown): HedgeInputs | null => {
   return hasAny ? inputs : null;
 };
 
+const normalizeAnalysis = (value: unknown): RiskAnalysis | null => {
+  if (!value || typeof value !== "object") return null;
+  const toText = (input: unknown): string | null =>
+    typeof input === "string" && input.trim() ? input.trim() : null;
+
+  const analysis = {
+    primary_risk_factor: toText((value as Record<string, unknown>).primary_risk_factor),
+    is_long: toText((value as Record<string, unknown>).is_long),
+    is_short: toText((value as Record<string, unknown>).is_short),
+  };
+
+  const hasAny = Object.values(analysis).some((item) => item !== null);
+  return hasAny ? analysis : null;
+};
+
+const normalizeStrikes = (value: unknown): EventStrike[] => {
+  if (!Array.isArray(value)) return [];
+  const toText = (input: unknown) => (typeof input === "string" && input.trim() ? input : null);
+  const toNumber = (input: unknown) =>
+    typeof input === "number" && Number.isFinite(input) ? input : null;
+
+  return value
+    .filter((item) => item && typeof item === "object" && typeof item.market_ticker === "string")
+    .map((item) => ({
+      market_ticker: item.market_ticker,
+      title: toText(item.title),
+      subtitle: toText(item.subtitle),
+      strike_type: toText(item.strike_type),
+      floor_strike: toNumber(item.floor_strike),
+      cap_strike: toNumber(item.cap_strike),
+      price_yes: toNumber(item.price_yes),
+      price_no: toNumber(item.price_no),
+      close_time: toText(item.close_time),
+      open_time: toText(item.open_time),
+    }));
+};
+
+const QUOTE_FIELDS = [
+  "yes_bid",
+  "yes_ask",
+  "last_price",
+  "volume",
+  "volume_24h",
+  "open_interest",
+  "liquidity",
+] as const;
+
+const pickQuote = (item: MarketQuote): MarketQuote =>
+  Object.fromEntries(
+    QUOTE_FIELDS.map((field) => [
+      field,
+      typeof item[field] === "number" && Number.isFinite(item[field]) ? item[field] : null,
+    ]),
+  );
+
+const MAX_SPREAD = 0.15;
+
+// Quote columns are always cents (migration 007), so no guessing from the magnitude.
+// YES ask minus YES bid in dollars per contract; null unless both sides are quoted.
+export const quoteSpread = (market: MarketQuote): number | null => {
+  const bid = centsToDollars(market.yes_bid);
+  const ask = centsToDollars(market.yes_ask);
+  if (bid === null || ask === null) return null;
+  return Number(Math.max(0, ask - bid).toFixed(4));
+};
+
+// Only markets with quote data can be judged; rows without it are kept.
+export const isIlliquid = (market: MarketQuote): boolean => {
+  const spread = quoteSpread(market);
+  if (spread !== null && spread > MAX_SPREAD) return true;
+  return market.volume_24h === 0 && market.open_interest === 0;
+};
+
 const normalizeMarkets = (value: unknown): KeywordMatchMarket[] =>
   Array.isArray(value)
     ? value
@@ -125,6 +258,14 @@ const normalizeMarkets = (value: unknown): KeywordMatchMarket[] =>
             typeof item.market_ticker === "string" ? item.market_ticker : null,
           price_yes:
             typeof item.price_yes === "number" ? item.price_yes : null,
+          price_no:
+            typeof item.price_no === "number" ? item.price_no : null,
+          close_time:
+            typeof item.close_time === "string" ? item.close_time : null,
+          open_time:
+            typeof item.open_time === "string" ? item.open_time : null,
+          strikes: normalizeStrikes(item.strikes),
+          ...pickQuote(item),
         }))
         .filter((item) => item.ticker && item.title)
     : [];
@@ -161,11 +302,65 @@ const normalizeScoredMarkets = (value: unknown): ScoredMarket[] =>
               typeof item.market_ticker === "string" ? item.market_ticker : null,
             price_yes:
               typeof item.price_yes === "number" ? item.price_yes : null,
+            price_no:
+              typeof item.price_no === "number" ? item.price_no : null,
+            close_time:
+              typeof item.close_time === "string" ? item.close_time : null,
+            title_strike: parseMarketTitle(typeof item.title === "string" ? item.title : ""),
           };
         })
         .filter((item) => item.ticker && item.title)
     : [];
 
+const categoriesForKeywords = (keywords: string[]): CategoryId[] => {
+  const terms = keywords.map((keyword) => keyword.toLowerCase());
+  const matched = CATEGORY_DEFINITIONS.filter((category) =>
+    category.keywords.some((keyword) => terms.some((term) => term.includes(keyword))),
+  ).map((category) => category.id);
+  return matched.length ? matched : CATEGORY_DEFINITIONS.map((category) => category.id);
+};
+
+const listingFromScored = (market: ScoredMarket): VenueListing => ({
+  platform: market.platform === "polymarket" ? "polymarket" : "kalshi",
+  id: market.market_ticker || market.ticker,
+  title: market.title,
+  close_time: market.close_time ?? null,
+  price_yes: market.price_yes ?? null,
+  price_no: market.price_no ?? null,
+});
+
+export const attachCrossVenueQuotes = (
+  scoredMarkets: ScoredMarket[],
+  listings: VenueListing[],
+): ScoredMarket[] => {
+  if (!listings.length) return scoredMarkets;
+  const own = scoredMarkets.map(listingFromScored);
+  const groups = groupEquivalentListings([...own, ...listings]);
+
+  return scoredMarkets.map((market, index) => {
+    const group = groups.find((item) => item.listings.includes(own[index]));
+    const venues = group
+      ? group.listings.filter((listing) => listing.platform !== own[index].platform)
+      : [];
+    return venues.length ? { ...market, venues, venue_match: group?.match ?? null } : market;
+  });
+};
+
+// The scorer only sees Kalshi rows, so other venues are pulled from the provider registry.
+// Only real providers count, without their mock fallback: a made-up listing must never be
+// quoted or routed to.
+const fetchOtherVenueListings = async (
+  platforms: string[],
+  keywords: string[],
+): Promise<VenueListing[]> => {
+  const providers = getProviders()
+    .filter((provider) => provider.mode === "real" && !platforms.includes(provider.id))
+    .map((provider) => ({ ...provider, fallback: undefined }));
+  if (!providers.length) return [];
+  const result = await fetchMarketsFromProviders(categoriesForKeywords(keywords), { providers });
+  return result.markets.map(listingFromMarket);
+};
+
 export const runHedgiSnapshot = async (rawInput: string): Promise<SnapshotResult> => {
   const trimmedInput = rawInput.trim();
   if (!trimmedInput) {
@@ -179,7 +374,8 @@ export const runHedgiSnapshot = async (rawInput: string): Promise<SnapshotResult
   const keywords = normalizeStringArray(response.keywords);
   const matches = normalizeMarkets(response.markets);
   const inputs = normalizeInputs(response.inputs);
-  const scoredMarkets = normalizeScoredMarkets(response.scored_markets)
+  const analysis = normalizeAnalysis(response.analysis);
+  const rankedMarkets = normalizeScoredMarkets(response.scored_markets)
     .slice()
     .sort((a, b) => b.overall_score - a.overall_score || a.ticker.localeCompare(b.ticker))
     .map((market) => {
@@ -192,8 +388,26 @@ export const runHedgiSnapshot = async (rawInput: string): Promise<SnapshotResult
           typeof match.price_yes === "number"
             ? match.price_yes
             : market.price_yes ?? null,
+        price_no:
+          typeof match.price_no === "number"
+            ? match.price_no
+            : market.price_no ?? null,
+        close_time: match.close_time ?? market.close_time ?? null,
+        open_time: match.open_time ?? null,
+        strikes: match.strikes ?? [],
+        ...pickQuote(match),
       };
     });
+  const illiquidMarkets = rankedMarkets.filter(isIlliquid);
+  const liquidMarkets = rankedMarkets.filter((market) => !isIlliquid(market));
+
+  const otherVenues = liquidMarkets.length
+    ? await fetchOtherVenueListings(
+        Array.from(new Set(liquidMarkets.map((market) => market.platform))),
+        keywords,
+      ).catch((): VenueListing[] => [])
+    : [];
+  const scoredMarkets = attachCrossVenueQuotes(liquidMarkets, otherVenues);
 
   const snapshot: SnapshotResult = {
     businessDescription: trimmedInput,
@@ -201,17 +415,22 @@ export const runHedgiSnapshot = async (rawInput: string): Promise<SnapshotResult
     matches,
     scoredMarkets,
     inputs,
+    analysis,
+    illiquidMarkets,
   };
 
   logGroup("Keyword search", () => {
     logDebug("keywords", keywords);
     logDebug("inputs", inputs);
+    logDebug("analysis", analysis);
     logDebug("matches", matches.length);
   });
 
   logGroup("Scored markets", () => {
     logDebug("count", scoredMarkets.length);
+    logDebug("illiquid", illiquidMarkets.length);
     logDebug("top", scoredMarkets.slice(0, 5));
+    logDebug("cross-venue matches", scoredMarkets.filter((market) => market.venues?.length).length);
   });
 
   if (DEBUG_MODE && typeof window !== "undefined") {
@@ -0,0 +1,178 @@
+import type { MarketStrike, StrikeComparator } from "@/types/hedgi";
+import { tagLocations } from "@/lib/pipeline/geoTagging";
+
+const ABOVE_PATTERN =
+  /\b(?:above|over|more than|greater than|higher than|exceeds?|at least|top|surpass(?:es)?)\b/i;
+const BELOW_PATTERN = /\b(?:below|under|less than|fewer than|lower than|at most)\b/i;
+const BETWEEN_PATTERN =
+  /\bbetween\s+(\$?\d[\d,]*(?:\.\d+)?\s*[kmb]?)\s*(?:%|percent)?\s+(?:and|to)\s+(\$?\d[\d,]*(?:\.\d+)?\s*[kmb]?)/i;
+const NUMBER_PATTERN = /^\s*(\$)?(\d[\d,]*(?:\.\d+)?)\s*(k|m|mm|b|bn|million|billion|thousand)?\b\s*(%|percent|bps|basis points|°f|°c|[a-z][a-z/]*)?/i;
+
+const TRAILING_VERBS =
+  /\s+(?:be|fall|rise|close|settle|end|finish|get|have|stay|remain|drop|trade|hit|reach|come in|see|record|go)$/i;
+
+const UNIT_STOPWORDS = new Set([
+  "in", "by", "on", "for", "during", "this", "next", "at", "before", "after", "of", "the", "and",
+  "or", "to", "per", "from", "through", "until",
+]);
+
+const UNIT_ALIASES: Record<string, string> = {
+  percent: "%",
+  "basis points": "bps",
+  "°f": "F",
+  "°c": "C",
+  degrees: "degrees",
+  in: "inches",
+  inch: "inches",
+};
+
+const SCALE: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mm: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+};
+
+const PERIOD_PATTERNS = [
+  /\bQ[1-4]\s+(?:19|20)\d{2}\b/i,
+  /\b(?:H[12]|first half|second half)\s+(?:of\s+)?(?:19|20)\d{2}\b/i,
+  /\b(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+(?:\d{1,2}(?:st|nd|rd|th)?,?\s+)?(?:19|20)\d{2}\b/i,
+  /\b(?:winter|spring|summer|fall|autumn)\s+(?:19|20)\d{2}(?:-\d{2,4})?\b/i,
+  /\b(?:this|next)\s+(?:week|month|quarter|year|season)\b/i,
+  /\b(?:19|20)\d{2}(?:-\d{2,4})?\b/,
+];
+
+const toNumber = (raw: string): number => Number(raw.replace(/[$,\s]/g, ""));
+
+const parseAmount = (text: string) => {
+  const match = text.match(NUMBER_PATTERN);
+  if (!match) return null;
+  const [, dollar, digits, scaleWord, unitWord] = match;
+  let value = toNumber(digits);
+  if (!Number.isFinite(value)) return null;
+  if (scaleWord) value *= SCALE[scaleWord.toLowerCase()] ?? 1;
+
+  let unit: string | null = null;
+  const normalizedUnit = unitWord?.toLowerCase();
+  if (normalizedUnit && !UNIT_STOPWORDS.has(normalizedUnit)) {
+    unit = UNIT_ALIASES[normalizedUnit] ?? normalizedUnit;
+  }
+  if (!unit && dollar) unit = "USD";
+  return { value, unit };
+};
+
+const extractPeriod = (title: string): string | null => {
+  for (const pattern of PERIOD_PATTERNS) {
+    const match = title.match(pattern);
+    if (match) return match[0].replace(/\s+/g, " ");
+  }
+  return null;
+};
+
+const cleanMetric = (text: string): string | null => {
+  let metric = text
+    .replace(/^\s*(?:will|does|did|is|are|can)\s+/i, "")
+    .replace(/^\s*(?:the|a|an)\s+/i, "")
+    .replace(/[?.!]+$/, "")
+    .trim();
+  while (TRAILING_VERBS.test(metric)) metric = metric.replace(TRAILING_VERBS, "").trim();
+  return metric || null;
+};
+
+// Pulls metric, comparator, threshold, unit, period and location out of a market title.
+// Titles without a comparator and a number come back with parsed: false and only the fields
+// that could be found on their own.
+export const parseMarketTitle = (title: string): MarketStrike => {
+  const text = title.replace(/\s+/g, " ").trim();
+  const period = extractPeriod(text);
+  const location = tagLocations(text)[0]?.name ?? null;
+  const fallback: MarketStrike = {
+    parsed: false,
+    metric: cleanMetric(text),
+    comparator: null,
+    threshold: null,
+    thresholdHigh: null,
+    unit: null,
+    period,
+    location,
+  };
+
+  const between = text.match(BETWEEN_PATTERN);
+  if (between) {
+    const low = parseAmount(between[1]);
+    const high = parseAmount(between[2] + text.slice((between.index ?? 0) + between[0].length));
+    if (low && high) {
+      return {
+        ...fallback,
+        parsed: true,
+        metric: cleanMetric(text.slice(0, between.index)),
+        comparator: "between",
+        threshold: Math.min(low.value, high.value),
+        thresholdHigh: Math.max(low.value, high.value),
+        unit: high.unit ?? low.unit,
+      };
+    }
+  }
+
+  const candidates: Array<{ comparator: StrikeComparator; match: RegExpMatchArray }> = [];
+  const above = text.match(ABOVE_PATTERN);
+  const below = text.match(BELOW_PATTERN);
+  if (above) candidates.push({ comparator: "above", match: above });
+  if (below) candidates.push({ comparator: "below", match: below });
+  candidates.sort((a, b) => (a.match.index ?? 0) - (b.match.index ?? 0));
+
+  for (const { comparator, match } of candidates) {
+    const start = (match.index ?? 0) + match[0].length;
+    const amount = parseAmount(text.slice(start));
+    if (!amount) continue;
+    return {
+      ...fallback,
+      parsed: true,
+      metric: cleanMetric(text.slice(0, match.index)),
+      comparator,
+      threshold: amount.value,
+      unit: amount.unit,
+    };
+  }
+
+  return fallback;
+};
+
+// Signed distance from the strike to a level the business cares about, e.g. the rainfall or
+// price at which its loss kicks in. Positive means the strike sits above that level.
+export const strikeGap = (
+  strike: MarketStrike | null | undefined,
+  level: number,
+): { absolute: number; relative: number | null } | null => {
+  if (!strike?.parsed || strike.threshold === null || !Number.isFinite(level)) return null;
+  const reference =
+    strike.comparator === "between" && strike.thresholdHigh !== null
+      ? (strike.threshold + strike.thresholdHigh) / 2
+      : strike.threshold;
+  const absolute = reference - level;
+  return { absolute, relative: level !== 0 ? absolute / Math.abs(level) : null };
+};
+
+// Kalshi lists a strike's bounds next to the title; when they are present they beat whatever
+// the title text says.
+export const applyStrikeBounds = (
+  strike: MarketStrike,
+  bounds: { strike_type?: string | null; floor_strike?: number | null; cap_strike?: number | null },
+): MarketStrike => {
+  const floor = typeof bounds.floor_strike === "number" ? bounds.floor_strike : null;
+  const cap = typeof bounds.cap_strike === "number" ? bounds.cap_strike : null;
+  if (floor !== null && cap !== null) {
+    return { ...strike, parsed: true, comparator: "between", threshold: floor, thresholdHigh: cap };
+  }
+  if (floor !== null && bounds.strike_type !== "less") {
+    return { ...strike, parsed: true, comparator: "above", threshold: floor, thresholdHigh: null };
+  }
+  if (cap !== null) {
+    return { ...strike, parsed: true, comparator: "below", threshold: cap, thresholdHigh: null };
+  }
+  return strike;
+};
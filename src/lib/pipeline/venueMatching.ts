@@ -0,0 +1,256 @@
+import type { Market, MarketSource } from "@/types/hedgi";
+import { centsToDollars } from "@/lib/format";
+
+export type VenueListing = {
+  platform: MarketSource;
+  id: string;
+  title: string;
+  close_time?: string | null;
+  // In the venue's own unit: cents on Kalshi, dollars on Polymarket.
+  price_yes?: number | null;
+  price_no?: number | null;
+  url?: string | null;
+};
+
+export type VenueMatchKind = "equivalent" | "near-equivalent";
+
+export type VenueMatch = {
+  score: number;
+  kind: VenueMatchKind;
+  title_similarity: number;
+  close_gap_days: number | null;
+  thresholds: number[];
+};
+
+export type VenueGroup = {
+  listings: VenueListing[];
+  match: VenueMatch | null;
+};
+
+export type VenueMatchOptions = {
+  min_score?: number;
+  min_title_similarity?: number;
+  max_close_gap_days?: number;
+};
+
+export type VenuePrice = {
+  listing: VenueListing;
+  price: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_MIN_SCORE = 0.6;
+const DEFAULT_MIN_TITLE_SIMILARITY = 0.4;
+const DEFAULT_MAX_CLOSE_GAP_DAYS = 10;
+const EQUIVALENT_SCORE = 0.8;
+
+const TITLE_STOPWORDS = new Set([
+  "will", "the", "a", "an", "be", "in", "on", "of", "to", "by", "for", "at", "or", "and", "is",
+  "than", "before", "after", "end", "this", "next", "above", "below", "over", "under", "more",
+  "less", "least", "exceed", "reach", "hit", "fall", "rise", "us", "usa",
+]);
+
+const UP_WORDS = new Set(["above", "over", "exceed", "exceeds", "more", "higher", "rise", "least"]);
+const DOWN_WORDS = new Set(["below", "under", "less", "lower", "fall", "drop"]);
+
+const MONTH_WORDS =
+  "jan|january|feb|february|mar|march|apr|april|may|jun|june|jul|july|aug|august|sep|sept|september|oct|october|nov|november|dec|december";
+
+const stem = (token: string) =>
+  token.length > 4 && token.endsWith("es")
+    ? token.slice(0, -2)
+    : token.length > 3 && token.endsWith("s")
+      ? token.slice(0, -1)
+      : token;
+
+const titleTokens = (title: string): Set<string> =>
+  new Set(
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, " ")
+      .split(/\s+/)
+      .filter((token) => token && !TITLE_STOPWORDS.has(token) && !/^\d/.test(token))
+      .map(stem),
+  );
+
+export const titleSimilarity = (a: string, b: string): number => {
+  const left = titleTokens(a);
+  const right = titleTokens(b);
+  if (!left.size || !right.size) return 0;
+  let shared = 0;
+  left.forEach((token) => {
+    if (right.has(token)) shared += 1;
+  });
+  return shared / (left.size + right.size - shared);
+};
+
+// Strike levels named in a title ("above 4.25%", "2,000", "$4.00"). Years, year ranges and
+// calendar days are dropped so "by Dec 31 2026" does not read as a threshold.
+export const parseTitleThresholds = (title: string): number[] => {
+  const cleaned = title
+    .toLowerCase()
+    .replace(/\b(19|20)\d{2}(-\d{2,4})?\b/g, " ")
+    .replace(new RegExp(`\\b(${MONTH_WORDS})\\.?\\s+\\d{1,2}(st|nd|rd|th)?\\b`, "g"), " ")
+    .replace(/(\d),(\d{3})/g, "$1$2");
+
+  const values = new Set<number>();
+  for (const match of cleaned.matchAll(/\d+(?:\.\d+)?/g)) {
+    const value = Number(match[0]);
+    if (Number.isFinite(value)) values.add(value);
+  }
+  return Array.from(values).sort((a, b) => a - b);
+};
+
+const thresholdDirection = (title: string): "up" | "down" | null => {
+  const words = title.toLowerCase().split(/[^a-z]+/);
+  const up = words.some((word) => UP_WORDS.has(word));
+  const down = words.some((word) => DOWN_WORDS.has(word));
+  return up === down ? null : up ? "up" : "down";
+};
+
+const closeGapDays = (a?: string | null, b?: string | null): number | null => {
+  const left = a ? Date.parse(a) : NaN;
+  const right = b ? Date.parse(b) : NaN;
+  if (Number.isNaN(left) || Number.isNaN(right)) return null;
+  return Math.abs(left - right) / DAY_MS;
+};
+
+export const scoreVenueMatch = (
+  a: VenueListing,
+  b: VenueListing,
+  options: VenueMatchOptions = {},
+): VenueMatch | null => {
+  if (a.platform === b.platform) return null;
+
+  const minScore = options.min_score ?? DEFAULT_MIN_SCORE;
+  const minTitle = options.min_title_similarity ?? DEFAULT_MIN_TITLE_SIMILARITY;
+  const maxGap = options.max_close_gap_days ?? DEFAULT_MAX_CLOSE_GAP_DAYS;
+
+  const similarity = titleSimilarity(a.title, b.title);
+  if (similarity < minTitle) return null;
+
+  const gap = closeGapDays(a.close_time, b.close_time);
+  if (gap !== null && gap > maxGap) return null;
+  const closeScore = gap === null ? 0.5 : 1 - gap / maxGap;
+
+  // Different strikes on the same underlying are different contracts, not the same market.
+  const leftThresholds = parseTitleThresholds(a.title);
+  const rightThresholds = parseTitleThresholds(b.title);
+  const shared = leftThresholds.filter((value) => rightThresholds.includes(value));
+  let thresholdScore = 0.5;
+  if (leftThresholds.length && rightThresholds.length) {
+    if (!shared.length) return null;
+    const leftDirection = thresholdDirection(a.title);
+    const rightDirection = thresholdDirection(b.title);
+    if (leftDirection && rightDirection && leftDirection !== rightDirection) return null;
+    thresholdScore = 1;
+  } else if (!leftThresholds.length && !rightThresholds.length) {
+    thresholdScore = 1;
+  }
+
+  const score = similarity * 0.6 + closeScore * 0.25 + thresholdScore * 0.15;
+  if (score < minScore) return null;
+
+  return {
+    score: Number(score.toFixed(3)),
+    kind: score >= EQUIVALENT_SCORE ? "equivalent" : "near-equivalent",
+    title_similarity: Number(similarity.toFixed(3)),
+    close_gap_days: gap === null ? null : Number(gap.toFixed(2)),
+    thresholds: shared,
+  };
+};
+
+// Pairs listings across venues greedily by score so each listing joins at most one other
+// venue's listing. Unmatched listings come back as single-listing groups, in input order.
+export const groupEquivalentListings = (
+  listings: VenueListing[],
+  options: VenueMatchOptions = {},
+): VenueGroup[] => {
+  const pairs: Array<{ left: number; right: number; match: VenueMatch }> = [];
+  for (let i = 0; i < listings.length; i += 1) {
+    for (let j = i + 1; j < listings.length; j += 1) {
+      const match = scoreVenueMatch(listings[i], listings[j], options);
+      if (match) pairs.push({ left: i, right: j, match });
+    }
+  }
+  pairs.sort((a, b) => b.match.score - a.match.score || a.left - b.left || a.right - b.right);
+
+  const groupOf = new Map<number, { members: number[]; match: VenueMatch | null }>();
+  for (const pair of pairs) {
+    const leftGroup = groupOf.get(pair.left);
+    const rightGroup = groupOf.get(pair.right);
+    if (leftGroup && rightGroup) continue;
+    const existing = leftGroup ?? rightGroup;
+    const incoming = leftGroup ? pair.right : pair.left;
+    if (existing) {
+      const platforms = existing.members.map((index) => listings[index].platform);
+      if (platforms.includes(listings[incoming].platform)) continue;
+      existing.members.push(incoming);
+      groupOf.set(incoming, existing);
+      continue;
+    }
+    const group = { members: [pair.left, pair.right], match: pair.match };
+    groupOf.set(pair.left, group);
+    groupOf.set(pair.right, group);
+  }
+
+  const groups: VenueGroup[] = [];
+  const emitted = new Set<object>();
+  listings.forEach((listing, index) => {
+    const group = groupOf.get(index);
+    if (!group) {
+      groups.push({ listings: [listing], match: null });
+      return;
+    }
+    if (emitted.has(group)) return;
+    emitted.add(group);
+    groups.push({
+      listings: group.members.slice().sort((a, b) => a - b).map((member) => listings[member]),
+      match: group.match,
+    });
+  });
+  return groups;
+};
+
+const normalizeVenuePrice = (platform: MarketSource, value: number | null | undefined) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? platform === "kalshi"
+      ? centsToDollars(value)
+      : value
+    : null;
+
+export const venueSidePrice = (listing: VenueListing, side: "yes" | "no"): number | null => {
+  const yes = normalizeVenuePrice(listing.platform, listing.price_yes);
+  const no = normalizeVenuePrice(listing.platform, listing.price_no);
+  const price = side === "yes" ? yes : no ?? (yes !== null ? 1 - yes : null);
+  return price !== null && price > 0 && price < 1 ? Number(price.toFixed(4)) : null;
+};
+
+// Cheapest venue to buy the hedge side on; ties keep the earlier listing.
+export const bestVenueForSide = (
+  listings: VenueListing[],
+  side: "yes" | "no",
+): VenuePrice | null => {
+  let best: VenuePrice | null = null;
+  for (const listing of listings) {
+    const price = venueSidePrice(listing, side);
+    if (price === null) continue;
+    if (!best || price < best.price) best = { listing, price };
+  }
+  return best;
+};
+
+export const listingFromMarket = (market: Market): VenueListing => {
+  const yes = market.outcomes.find((outcome) => outcome.id === "yes");
+  const no = market.outcomes.find((outcome) => outcome.id === "no");
+  return {
+    platform: market.source,
+    id: market.id,
+    title: market.title,
+    close_time: market.closeTime,
+    price_yes: typeof yes?.price === "number" ? yes.price : null,
+    price_no: typeof no?.price === "number" ? no.price : null,
+    url: market.url ?? null,
+  };
+};
@@ -0,0 +1,97 @@
+import { centsToDollars } from "@/lib/format";
+
+export type PriceHistoryRange = "1d" | "7d" | "30d" | "90d" | "1y" | "all";
+
+export type PriceHistoryPoint = {
+  captured_at: string;
+  // Implied probability of YES, 0-1.
+  probability: number;
+  price_yes: number | null;
+  price_no: number | null;
+};
+
+export type PriceHistorySeries = {
+  ticker: string;
+  market_ticker: string | null;
+  from: string;
+  to: string;
+  total: number;
+  downsampled: boolean;
+  points: PriceHistoryPoint[];
+};
+
+export type PriceHistoryQuery = {
+  range?: PriceHistoryRange;
+  from?: string;
+  to?: string;
+  points?: number;
+};
+
+type PriceHistoryResponse = {
+  ticker?: string;
+  market_ticker?: string | null;
+  from?: string;
+  to?: string;
+  total?: number;
+  downsampled?: boolean;
+  points?: Array<{ captured_at?: string; price_yes?: number | null; price_no?: number | null }>;
+};
+
+// price_history stores Kalshi cents.
+const normalizePrice = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? centsToDollars(value) : null;
+
+// YES price when there is one; otherwise the complement of the NO price.
+export const impliedProbability = (priceYes: number | null, priceNo: number | null): number | null => {
+  const probability = priceYes ?? (priceNo !== null ? 1 - priceNo : null);
+  return probability !== null && probability >= 0 && probability <= 1 ? probability : null;
+};
+
+export const normalizePriceHistory = (
+  ticker: string,
+  data: PriceHistoryResponse,
+): PriceHistorySeries => {
+  const points: PriceHistoryPoint[] = [];
+  for (const point of Array.isArray(data?.points) ? data.points : []) {
+    if (!point || typeof point.captured_at !== "string") continue;
+    const priceYes = normalizePrice(point.price_yes);
+    const priceNo = normalizePrice(point.price_no);
+    const probability = impliedProbability(priceYes, priceNo);
+    if (probability === null) continue;
+    points.push({ captured_at: point.captured_at, probability, price_yes: priceYes, price_no: priceNo });
+  }
+
+  return {
+    ticker: data?.ticker ?? ticker,
+    market_ticker: data?.market_ticker ?? null,
+    from: data?.from ?? points[0]?.captured_at ?? "",
+    to: data?.to ?? points[points.length - 1]?.captured_at ?? "",
+    total: typeof data?.total === "number" ? data.total : points.length,
+    downsampled: data?.downsampled === true,
+    points,
+  };
+};
+
+export const fetchPriceHistory = async (
+  ticker: string,
+  query: PriceHistoryQuery = {},
+): Promise<PriceHistorySeries | null> => {
+  const params = new URLSearchParams();
+  if (query.range) params.set("range", query.range);
+  if (query.from) params.set("from", query.from);
+  if (query.to) params.set("to", query.to);
+  if (typeof query.points === "number") params.set("points", String(query.points));
+  const search = params.toString();
+
+  const response = await fetch(
+    `/api/markets/${encodeURIComponent(ticker)}/history${search ? `?${search}` : ""}`,
+  );
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`history_api_${response.status}`);
+  }
+
+  const series = normalizePriceHistory(ticker, (await response.json()) as PriceHistoryResponse);
+  return series.points.length ? series : null;
+};
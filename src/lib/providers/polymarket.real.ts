@@ -0,0 +1,29 @@
+import type { CategoryId, Market } from "@/types/hedgi";
+
+type PolymarketApiResponse = {
+  markets: Market[];
+  meta?: {
+    error?: string;
+  };
+};
+
+export const fetchPolymarketMarketsReal = async (
+  categories: CategoryId[],
+): Promise<Market[]> => {
+  const response = await fetch("/api/markets/polymarket", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ categories }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`polymarket_api_${response.status}`);
+  }
+
+  const data = (await response.json()) as PolymarketApiResponse;
+  if (data?.meta?.error) {
+    throw new Error(data.meta.error);
+  }
+
+  return Array.isArray(data?.markets) ? data.markets : [];
+};
@@ -2,13 +2,19 @@ import type { Market } from "@/types/hedgi";
 
 export type ProviderId = "kalshi" | "polymarket";
 
+export type ProviderMode = "mock" | "real";
+
 export type ProviderFetchResult = {
   markets: Market[];
   meta: {
     provider: ProviderId;
+    mode?: ProviderMode;
     fetchedSeries?: number;
     fetchedMarkets: number;
     cacheHit?: boolean;
+    durationMs?: number;
+    skipped?: boolean;
+    fallback?: ProviderMode;
     error?: string;
   };
 };
@@ -0,0 +1,195 @@
+import type { CategoryId, Market } from "@/types/hedgi";
+import type {
+  ProviderFetchResult,
+  ProviderId,
+  ProviderMode,
+} from "@/lib/providers/providerTypes";
+import { fetchActiveMarketsByCategories as fetchKalshiMock } from "@/lib/providers/kalshi.mock";
+import { fetchKalshiMarketsReal } from "@/lib/providers/kalshi.real";
+import { fetchActiveMarketsByCategories as fetchPolymarketMock } from "@/lib/providers/polymarket.mock";
+import { fetchPolymarketMarketsReal } from "@/lib/providers/polymarket.real";
+
+export type ProviderCapability = "prices" | "orderBooks" | "history";
+
+export type MarketProvider = {
+  id: ProviderId;
+  mode: ProviderMode;
+  categories: CategoryId[] | "all";
+  capabilities: ProviderCapability[];
+  enabled?: boolean;
+  timeoutMs?: number;
+  fetchMarkets: (categories: CategoryId[]) => Promise<ProviderFetchResult>;
+  // Used when the primary source fails, times out or comes back empty.
+  fallback?: MarketProvider;
+};
+
+export type ProviderFanOutResult = {
+  markets: Market[];
+  meta: ProviderFetchResult["meta"][];
+};
+
+const DEFAULT_TIMEOUT_MS = 8000;
+
+const ALL_CATEGORIES: CategoryId[] | "all" = "all";
+
+const fromMarkets =
+  (id: ProviderId, fetcher: (categories: CategoryId[]) => Promise<Market[]>) =>
+  async (categories: CategoryId[]): Promise<ProviderFetchResult> => {
+    const markets = await fetcher(categories);
+    return { markets, meta: { provider: id, fetchedMarkets: markets.length } };
+  };
+
+const kalshiMock: MarketProvider = {
+  id: "kalshi",
+  mode: "mock",
+  categories: ALL_CATEGORIES,
+  capabilities: ["prices"],
+  fetchMarkets: fromMarkets("kalshi", fetchKalshiMock),
+};
+
+const polymarketMock: MarketProvider = {
+  id: "polymarket",
+  mode: "mock",
+  categories: ALL_CATEGORIES,
+  capabilities: ["prices"],
+  fetchMarkets: fromMarkets("polymarket", fetchPolymarketMock),
+};
+
+export const createDefaultProviders = (
+  env: Record<string, string | boolean | undefined> = import.meta.env,
+): MarketProvider[] => [
+  env.VITE_USE_REAL_KALSHI === "true"
+    ? {
+        id: "kalshi",
+        mode: "real",
+        categories: ALL_CATEGORIES,
+        capabilities: ["prices", "orderBooks"],
+        fetchMarkets: fromMarkets("kalshi", fetchKalshiMarketsReal),
+        fallback: kalshiMock,
+      }
+    : kalshiMock,
+  env.VITE_USE_REAL_POLYMARKET === "true"
+    ? {
+        id: "polymarket",
+        mode: "real",
+        categories: ALL_CATEGORIES,
+        capabilities: ["prices"],
+        fetchMarkets: fromMarkets("polymarket", fetchPolymarketMarketsReal),
+        fallback: polymarketMock,
+      }
+    : polymarketMock,
+];
+
+const registry = new Map<ProviderId, MarketProvider>();
+
+export const registerProvider = (provider: MarketProvider) => {
+  registry.set(provider.id, provider);
+};
+
+export const resetProviders = (providers: MarketProvider[] = createDefaultProviders()) => {
+  registry.clear();
+  providers.forEach(registerProvider);
+};
+
+export const getProviders = (): MarketProvider[] => {
+  if (!registry.size) resetProviders();
+  return Array.from(registry.values());
+};
+
+export const providersWithCapability = (capability: ProviderCapability): MarketProvider[] =>
+  getProviders().filter(
+    (provider) => provider.enabled !== false && provider.capabilities.includes(capability),
+  );
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("provider_timeout")), timeoutMs);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      },
+    );
+  });
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : "provider_error");
+
+const runProvider = async (
+  provider: MarketProvider,
+  categories: CategoryId[],
+  timeoutMs: number,
+): Promise<ProviderFetchResult> => {
+  const supported =
+    provider.categories === "all"
+      ? categories
+      : categories.filter((category) => provider.categories.includes(category));
+
+  if (categories.length && !supported.length) {
+    return {
+      markets: [],
+      meta: { provider: provider.id, mode: provider.mode, fetchedMarkets: 0, skipped: true },
+    };
+  }
+
+  const startedAt = Date.now();
+  let primary: ProviderFetchResult;
+  try {
+    const result = await withTimeout(
+      provider.fetchMarkets(supported),
+      provider.timeoutMs ?? timeoutMs,
+    );
+    primary = {
+      markets: result.markets,
+      meta: { ...result.meta, mode: provider.mode, durationMs: Date.now() - startedAt },
+    };
+  } catch (err) {
+    primary = {
+      markets: [],
+      meta: {
+        provider: provider.id,
+        mode: provider.mode,
+        fetchedMarkets: 0,
+        durationMs: Date.now() - startedAt,
+        error: errorMessage(err),
+      },
+    };
+  }
+
+  if (primary.markets.length || !provider.fallback) return primary;
+
+  const fallback = await runProvider(provider.fallback, categories, timeoutMs);
+  return {
+    markets: fallback.markets,
+    meta: {
+      ...primary.meta,
+      fetchedMarkets: fallback.meta.fetchedMarkets,
+      fallback: fallback.meta.mode,
+      error: primary.meta.error ?? fallback.meta.error,
+    },
+  };
+};
+
+// Every enabled provider runs in parallel; a failure shows up in its meta entry instead of
+// taking the others down.
+export const fetchMarketsFromProviders = async (
+  categories: CategoryId[],
+  options: { providers?: MarketProvider[]; timeoutMs?: number } = {},
+): Promise<ProviderFanOutResult> => {
+  const providers = (options.providers ?? getProviders()).filter(
+    (provider) => provider.enabled !== false,
+  );
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  const results = await Promise.all(
+    providers.map((provider) => runProvider(provider, categories, timeoutMs)),
+  );
+
+  return {
+    markets: results.flatMap((result) => result.markets),
+    meta: results.map((result) => result.meta),
+  };
+};
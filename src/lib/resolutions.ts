@@ -0,0 +1,83 @@
+import type { HedgeSide } from "@/lib/hedge/side";
+
+export type ResolutionResult = "yes" | "no" | "void";
+
+export type MarketResolution = {
+  market_ticker: string;
+  event_ticker: string | null;
+  title: string | null;
+  subtitle: string | null;
+  status: string;
+  result: ResolutionResult | null;
+  // Winning strike label when the event listed several brackets.
+  bracket: string | null;
+  // Dollars paid per YES contract.
+  settlement_value: number | null;
+  settled_at: string | null;
+};
+
+export type ResolutionQuery = {
+  event?: string;
+  since?: string;
+  limit?: number;
+  include_pending?: boolean;
+};
+
+type ResolutionResponse = {
+  resolutions?: Array<Partial<MarketResolution>>;
+};
+
+const toText = (value: unknown) => (typeof value === "string" && value ? value : null);
+
+const toResult = (value: unknown): ResolutionResult | null =>
+  value === "yes" || value === "no" || value === "void" ? value : null;
+
+export const normalizeResolutions = (data: ResolutionResponse): MarketResolution[] =>
+  (Array.isArray(data?.resolutions) ? data.resolutions : [])
+    .filter((item) => item && typeof item.market_ticker === "string")
+    .map((item) => ({
+      market_ticker: item.market_ticker as string,
+      event_ticker: toText(item.event_ticker),
+      title: toText(item.title),
+      subtitle: toText(item.subtitle),
+      status: toText(item.status) ?? "pending",
+      result: toResult(item.result),
+      bracket: toText(item.bracket),
+      settlement_value:
+        typeof item.settlement_value === "number" && Number.isFinite(item.settlement_value)
+          ? item.settlement_value
+          : null,
+      settled_at: toText(item.settled_at),
+    }));
+
+// true when a contract on `side` paid out, false when it expired worthless, null if unsettled or voided.
+export const hedgePaidOut = (resolution: MarketResolution, side: HedgeSide): boolean | null => {
+  if (resolution.result !== "yes" && resolution.result !== "no") return null;
+  return resolution.result === side;
+};
+
+export const fetchResolutions = async (query: ResolutionQuery = {}): Promise<MarketResolution[]> => {
+  const params = new URLSearchParams();
+  if (query.event) params.set("event", query.event);
+  if (query.since) params.set("since", query.since);
+  if (typeof query.limit === "number") params.set("limit", String(query.limit));
+  if (query.include_pending) params.set("include_pending", "true");
+  const search = params.toString();
+
+  const response = await fetch(`/api/resolutions${search ? `?${search}` : ""}`);
+  if (!response.ok) {
+    throw new Error(`resolutions_api_${response.status}`);
+  }
+
+  return normalizeResolutions((await response.json()) as ResolutionResponse);
+};
+
+export const fetchMarketResolutions = async (ticker: string): Promise<MarketResolution[]> => {
+  const response = await fetch(`/api/markets/${encodeURIComponent(ticker)}/resolution`);
+  if (response.status === 404) return [];
+  if (!response.ok) {
+    throw new Error(`resolutions_api_${response.status}`);
+  }
+
+  return normalizeResolutions((await response.json()) as ResolutionResponse);
+};
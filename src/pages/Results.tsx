@@ -1,11 +1,50 @@
-import { useEffect, useMemo, useState } from "react";
+import { Fragment, useEffect, useMemo, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Header } from "@/components/layout/Header";
 import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
 import { motion } from "framer-motion";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
 import { Building2, ChevronRight, Shield, Signal, Tag } from "lucide-react";
-import { runHedgiSnapshot, type SnapshotResult } from "@/lib/pipeline/snapshotPipeline";
-import { computeHedgeQuote } from "@/lib/hedgeCalculator";
+import {
+  centsToDollars,
+  quoteSpread,
+  runHedgiSnapshot,
+  type EventStrike,
+  type ScoredMarket,
+  type SnapshotResult,
+} from "@/lib/pipeline/snapshotPipeline";
+import {
+  computeHedgeQuote,
+  inferHedgeSide,
+  type HedgeQuoteInput,
+  type HedgeSide,
+} from "@/lib/hedgeCalculator";
+import { fetchOrderBook, type OrderBookLevel } from "@/lib/hedge/orderBook";
+import { analyzeHedgeEdge } from "@/lib/hedge/edge";
+import { compareQuoteRisk } from "@/lib/hedge/riskMetrics";
+import { computeHedgeSensitivity } from "@/lib/hedge/sensitivity";
+import { sizeHedge } from "@/lib/hedge/sizing";
+import {
+  bracketsFromStrikes,
+  buildLadderHedge,
+  lossAboveThreshold,
+  lossBelowThreshold,
+} from "@/lib/hedge/ladder";
+import { planHedgeRoll, type RollCandidate } from "@/lib/hedge/rollPlanner";
+import { fetchPriceHistory, type PriceHistorySeries } from "@/lib/priceHistory";
+import {
+  bestVenueForSide,
+  venueSidePrice,
+  type VenueListing,
+} from "@/lib/pipeline/venueMatching";
+import { applyStrikeBounds } from "@/lib/pipeline/titleParser";
+import type { MarketStrike } from "@/types/hedgi";
 
 const getErrorMessage = (code: string) => {
   switch (code) {
@@ -27,6 +66,23 @@ const getErrorMessage = (code: string) => {
 const formatScore = (value: number) => `${value.toFixed(1)}/10`;
 const formatCurrency = (value: number) =>
   new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(value);
+const formatSignedCurrency = (value: number) =>
+  `${value > 0 ? "+" : value < 0 ? "-" : ""}${formatCurrency(Math.abs(value))}`;
+const formatProbability = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const tornadoChartConfig = {
+  low: { label: "Input at low end", color: "hsl(var(--destructive))" },
+  high: { label: "Input at high end", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+const historyChartConfig = {
+  probability: { label: "Implied probability", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const SEASON_MONTHS = [
+  "January", "February", "March", "April", "May", "June", "July", "August", "September",
+  "October", "November", "December",
+];
 
 const getFallbackYesPrice = (seed: string) => {
   let hash = 0;
@@ -37,6 +93,86 @@ const getFallbackYesPrice = (seed: string) => {
   return Number(normalized.toFixed(2));
 };
 
+const strikeLabel = (strike: EventStrike) => {
+  if (strike.subtitle) return strike.subtitle;
+  if (strike.strike_type === "between" && strike.floor_strike !== null && strike.cap_strike !== null) {
+    return `${strike.floor_strike} to ${strike.cap_strike}`;
+  }
+  if (typeof strike.floor_strike === "number") return `Above ${strike.floor_strike}`;
+  if (typeof strike.cap_strike === "number") return `Below ${strike.cap_strike}`;
+  return strike.market_ticker;
+};
+
+const quoteLabel = (market: ScoredMarket) => {
+  const spread = quoteSpread(market);
+  const parts = [
+    spread !== null
+      ? `Bid ${formatCurrency(centsToDollars(market.yes_bid))} · Ask ${formatCurrency(
+          centsToDollars(market.yes_ask),
+        )} · Spread ${formatCurrency(spread)}`
+      : null,
+    typeof market.volume_24h === "number" ? `24h volume ${market.volume_24h.toLocaleString()}` : null,
+    typeof market.open_interest === "number"
+      ? `Open interest ${market.open_interest.toLocaleString()}`
+      : null,
+  ].filter(Boolean);
+  return parts.length ? parts.join(" · ") : null;
+};
+
+const titleStrikeLabel = (strike: MarketStrike | undefined) => {
+  if (!strike?.parsed || strike.threshold === null) return null;
+  const unit = strike.unit ? ` ${strike.unit}` : "";
+  const level =
+    strike.comparator === "between"
+      ? `${strike.threshold}-${strike.thresholdHigh}${unit}`
+      : `${strike.comparator} ${strike.threshold}${unit}`;
+  return [strike.metric, level, strike.period, strike.location].filter(Boolean).join(" · ");
+};
+
+// Swaps in the chosen strike's ticker and prices. Cross-venue matches and the stored quote were
+// for the default strike, so they are dropped once another one is picked.
+const applyStrike = (market: ScoredMarket, marketTicker: string | undefined): ScoredMarket => {
+  const strike = marketTicker
+    ? market.strikes?.find((item) => item.market_ticker === marketTicker)
+    : undefined;
+  if (!strike || strike.market_ticker === market.market_ticker) return market;
+  return {
+    ...market,
+    market_ticker: strike.market_ticker,
+    price_yes: strike.price_yes ?? null,
+    price_no: strike.price_no ?? null,
+    close_time: strike.close_time ?? market.close_time ?? null,
+    open_time: strike.open_time ?? market.open_time ?? null,
+    title_strike: market.title_strike ? applyStrikeBounds(market.title_strike, strike) : undefined,
+    yes_bid: null,
+    yes_ask: null,
+    last_price: null,
+    volume: null,
+    volume_24h: null,
+    open_interest: null,
+    liquidity: null,
+    venues: undefined,
+    venue_match: null,
+  };
+};
+
+const getMarketPrices = (market: ScoredMarket) => {
+  // Stored prices are Kalshi cents; the fallback is already in dollars.
+  const priceYes =
+    typeof market.price_yes === "number"
+      ? centsToDollars(market.price_yes)
+      : getFallbackYesPrice(market.market_ticker || market.ticker);
+  const hasValidPrice = priceYes !== null && priceYes > 0 && priceYes < 1;
+  const storedNo = centsToDollars(market.price_no);
+  const priceNo =
+    storedNo !== null && storedNo > 0 && storedNo < 1
+      ? storedNo
+      : hasValidPrice
+        ? 1 - priceYes
+        : null;
+  return { priceYes, priceNo, hasValidPrice };
+};
+
 export default function Results() {
   const navigate = useNavigate();
   const [snapshot, setSnapshot] = useState<SnapshotResult | null>(null);
@@ -44,8 +180,22 @@ export default function Results() {
   const [error, setError] = useState<string | null>(null);
   const [expectedProfitInput, setExpectedProfitInput] = useState("");
   const [maxHedgeCostInput, setMaxHedgeCostInput] = useState("");
+  const [costOfCapitalInput, setCostOfCapitalInput] = useState("");
+  const [sizingMode, setSizingMode] = useState<"full" | "optimal">("full");
+  const [riskAversionInput, setRiskAversionInput] = useState("2");
+  const [beliefInput, setBeliefInput] = useState("");
+  const [signalBeliefs, setSignalBeliefs] = useState<Record<string, string>>({});
   const [hasPrefilled, setHasPrefilled] = useState(false);
   const [selectedMarketId, setSelectedMarketId] = useState<string | null>(null);
+  const [strikeOverrides, setStrikeOverrides] = useState<Record<string, string>>({});
+  const [sideOverrides, setSideOverrides] = useState<Record<string, HedgeSide>>({});
+  const [orderBooks, setOrderBooks] = useState<Record<string, OrderBookLevel[] | null>>({});
+  const [histories, setHistories] = useState<Record<string, PriceHistorySeries | null>>({});
+  const [ladderDirection, setLadderDirection] = useState<"above" | "below">("above");
+  const [ladderThresholdInput, setLadderThresholdInput] = useState("");
+  const [ladderLossPerUnitInput, setLadderLossPerUnitInput] = useState("");
+  const [seasonStartInput, setSeasonStartInput] = useState("");
+  const [seasonEndInput, setSeasonEndInput] = useState("");
 
   useEffect(() => {
     const storedSnapshot = sessionStorage.getItem("hedgi_snapshot");
@@ -102,13 +252,248 @@ export default function Results() {
     setSelectedMarketId(snapshot.scoredMarkets[0].ticker);
   }, [snapshot, selectedMarketId]);
 
-  const topMarkets = useMemo(() => snapshot?.scoredMarkets.slice(0, 10) ?? [], [snapshot]);
+  const resolvedMarkets = useMemo(
+    () =>
+      snapshot?.scoredMarkets.map((market) => applyStrike(market, strikeOverrides[market.ticker])) ??
+      [],
+    [snapshot, strikeOverrides],
+  );
+  const selectedMarket = useMemo(
+    () => resolvedMarkets.find((market) => market.ticker === selectedMarketId) ?? null,
+    [resolvedMarkets, selectedMarketId],
+  );
+  const getSide = (market: ScoredMarket): HedgeSide =>
+    sideOverrides[market.ticker] ?? inferHedgeSide(market.title, snapshot?.analysis, market.title_strike);
+  const selectedSide = selectedMarket ? getSide(selectedMarket) : null;
+  const selectedOrderBookKey =
+    selectedMarket?.market_ticker && selectedSide
+      ? `${selectedMarket.market_ticker}:${selectedSide}`
+      : null;
+
+  useEffect(() => {
+    if (!selectedOrderBookKey || selectedOrderBookKey in orderBooks) return;
+    const [marketTicker, side] = selectedOrderBookKey.split(":") as [string, HedgeSide];
+    let cancelled = false;
+
+    fetchOrderBook(marketTicker, side)
+      .then((book) => book?.levels ?? null)
+      .catch(() => null)
+      .then((levels) => {
+        if (cancelled) return;
+        setOrderBooks((current) => ({ ...current, [selectedOrderBookKey]: levels }));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedOrderBookKey, orderBooks]);
+
+  const historyKey = (market: ScoredMarket) => market.market_ticker || market.ticker;
+  const selectedHistoryKey = selectedMarket ? historyKey(selectedMarket) : null;
+
+  useEffect(() => {
+    if (!selectedHistoryKey || selectedHistoryKey in histories) return;
+    let cancelled = false;
+
+    fetchPriceHistory(selectedHistoryKey, { range: "30d", points: 60 })
+      .catch(() => null)
+      .then((series) => {
+        if (cancelled) return;
+        setHistories((current) => ({ ...current, [selectedHistoryKey]: series }));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedHistoryKey, histories]);
+
+  const topMarkets = useMemo(() => resolvedMarkets.slice(0, 10), [resolvedMarkets]);
   const expectedProfit = Number(expectedProfitInput);
   const maxHedgeCost = maxHedgeCostInput.trim() === "" ? null : Number(maxHedgeCostInput);
   const hedgeInputsValid = Number.isFinite(expectedProfit) && expectedProfit > 0;
+  const costOfCapitalPercent = Number(costOfCapitalInput);
+  const annualCostOfCapital =
+    costOfCapitalInput.trim() !== "" && Number.isFinite(costOfCapitalPercent) && costOfCapitalPercent >= 0
+      ? costOfCapitalPercent / 100
+      : null;
 
   const assumedLossIfEvent = hedgeInputsValid ? expectedProfit * 0.8 : null;
 
+  const getOrderBook = (market: ScoredMarket) =>
+    market.market_ticker ? orderBooks[`${market.market_ticker}:${getSide(market)}`] ?? null : null;
+
+  const riskAversion = Number(riskAversionInput);
+  const parseBelief = (value: string | undefined) => {
+    const percent = Number(value);
+    return value && value.trim() !== "" && Number.isFinite(percent) && percent >= 0 && percent <= 100
+      ? percent / 100
+      : null;
+  };
+  // The calculator-wide belief wins; otherwise fall back to the one entered on the signal card.
+  const subjectiveProbability =
+    parseBelief(beliefInput) ??
+    (selectedMarket ? parseBelief(signalBeliefs[selectedMarket.ticker]) : null);
+
+  // With the same event on several venues, the hedge goes wherever the chosen side is cheapest.
+  const getVenueRoute = (market: ScoredMarket) => {
+    if (!market.venues?.length) return null;
+    const own: VenueListing = {
+      platform: market.platform === "polymarket" ? "polymarket" : "kalshi",
+      id: market.market_ticker || market.ticker,
+      title: market.title,
+      close_time: market.close_time,
+      price_yes: market.price_yes ?? null,
+      price_no: market.price_no ?? null,
+    };
+    const listings = [own, ...market.venues];
+    return { listings, best: bestVenueForSide(listings, getSide(market)), own };
+  };
+
+  const buildQuoteInput = (market: ScoredMarket): HedgeQuoteInput | null => {
+    const route = getVenueRoute(market);
+    const routed = route?.best && route.best.listing !== route.own ? route.best.listing : null;
+    if (routed) {
+      const routedYes = venueSidePrice(routed, "yes");
+      if (!hedgeInputsValid || routedYes === null || assumedLossIfEvent === null) return null;
+      return {
+        market_id: routed.id,
+        price_yes: routedYes,
+        price_no: venueSidePrice(routed, "no"),
+        side: getSide(market),
+        expected_profit: expectedProfit,
+        loss_if_event: assumedLossIfEvent,
+        hedge_coverage: 1,
+        max_hedge_cost: maxHedgeCost,
+        annual_cost_of_capital: annualCostOfCapital,
+        close_time: routed.close_time ?? market.close_time,
+        source: routed.platform,
+      };
+    }
+
+    const { priceYes, priceNo, hasValidPrice } = getMarketPrices(market);
+    if (!hedgeInputsValid || !hasValidPrice || assumedLossIfEvent === null) return null;
+    return {
+      market_id: market.market_ticker || market.ticker,
+      price_yes: priceYes,
+      price_no: priceNo,
+      side: getSide(market),
+      expected_profit: expectedProfit,
+      loss_if_event: assumedLossIfEvent,
+      hedge_coverage: 1,
+      max_hedge_cost: maxHedgeCost,
+      annual_cost_of_capital: annualCostOfCapital,
+      close_time: market.close_time,
+      source: market.platform === "polymarket" ? "polymarket" : "kalshi",
+      order_book: getOrderBook(market),
+    };
+  };
+
+  const selectedQuoteInput = selectedMarket ? buildQuoteInput(selectedMarket) : null;
+  const selectedSizing = (() => {
+    if (sizingMode !== "optimal" || !selectedQuoteInput) return null;
+    try {
+      return sizeHedge({
+        ...selectedQuoteInput,
+        risk_aversion: riskAversion,
+        subjective_probability: subjectiveProbability,
+      });
+    } catch {
+      return null;
+    }
+  })();
+  const selectedQuote = (() => {
+    if (selectedSizing) return selectedSizing.quote;
+    if (!selectedQuoteInput) return null;
+    try {
+      return computeHedgeQuote(selectedQuoteInput);
+    } catch {
+      return null;
+    }
+  })();
+  const selectedSensitivity = (() => {
+    if (!selectedQuoteInput || !selectedQuote) return null;
+    try {
+      return computeHedgeSensitivity({
+        base: {
+          ...selectedQuoteInput,
+          hedge_coverage: selectedSizing ? selectedSizing.optimal_coverage : 1,
+        },
+      });
+    } catch {
+      return null;
+    }
+  })();
+  const tornadoData =
+    selectedSensitivity?.series.map((entry) => ({
+      label: entry.label,
+      low: (entry.low_outcome ?? selectedSensitivity.base_outcome) - selectedSensitivity.base_outcome,
+      high: (entry.high_outcome ?? selectedSensitivity.base_outcome) - selectedSensitivity.base_outcome,
+    })) ?? [];
+  const selectedRisk =
+    selectedQuote && assumedLossIfEvent !== null
+      ? compareQuoteRisk(selectedQuote, expectedProfit, assumedLossIfEvent)
+      : null;
+
+  // A multi-strike event can be hedged as a ladder once the loss is given per unit of the
+  // underlying, capped at the assumed loss.
+  const ladderBrackets =
+    selectedMarket?.strikes && selectedMarket.strikes.length > 1
+      ? bracketsFromStrikes(selectedMarket.strikes)
+      : [];
+  const selectedLadder = (() => {
+    const threshold = Number(ladderThresholdInput);
+    const lossPerUnit = Number(ladderLossPerUnitInput);
+    if (ladderBrackets.length < 2 || ladderThresholdInput.trim() === "") return null;
+    if (!Number.isFinite(threshold) || !Number.isFinite(lossPerUnit) || lossPerUnit <= 0) return null;
+    const lossCurve = ladderDirection === "above" ? lossAboveThreshold : lossBelowThreshold;
+    try {
+      return buildLadderHedge({
+        market_id: selectedMarket.ticker,
+        brackets: ladderBrackets,
+        loss_at: lossCurve(threshold, lossPerUnit, assumedLossIfEvent ?? Infinity),
+        budget: Number.isFinite(maxHedgeCost) ? maxHedgeCost : null,
+      });
+    } catch {
+      return null;
+    }
+  })();
+
+  // Chains the top markets by open and close time so a season longer than any one of them is
+  // covered end to end, each on the side the card would buy.
+  const rollPlan = (() => {
+    const startMonth = Number(seasonStartInput);
+    const endMonth = Number(seasonEndInput);
+    if (!seasonStartInput || !seasonEndInput || !hedgeInputsValid || assumedLossIfEvent === null) {
+      return null;
+    }
+    const candidates: RollCandidate[] = topMarkets
+      .map((market): RollCandidate | null => {
+        const { priceYes, priceNo, hasValidPrice } = getMarketPrices(market);
+        if (!hasValidPrice || !market.close_time) return null;
+        return {
+          market_id: market.market_ticker || market.ticker,
+          title: market.title,
+          close_time: market.close_time,
+          open_time: market.open_time ?? null,
+          price_yes: priceYes,
+          price_no: priceNo,
+          side: getSide(market),
+          source: market.platform === "polymarket" ? "polymarket" : "kalshi",
+        };
+      })
+      .filter((candidate): candidate is RollCandidate => candidate !== null);
+    try {
+      return planHedgeRoll({
+        season: { startMonth, endMonth },
+        candidates,
+        expected_profit: expectedProfit,
+        loss_if_event: assumedLossIfEvent,
+      });
+    } catch {
+      return null;
+    }
+  })();
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background">
@@ -186,6 +571,9 @@ export default function Results() {
                 <h2 className="text-lg font-semibold">Search keywords</h2>
                 <p className="text-sm text-muted-foreground">
                   {snapshot.matches.length} matching markets found in the database
+                  {snapshot.illiquidMarkets?.length
+                    ? ` (${snapshot.illiquidMarkets.length} illiquid hidden)`
+                    : ""}
                 </p>
               </div>
             </div>
@@ -227,7 +615,7 @@ export default function Results() {
               <p>Enter your expected profit if nothing goes wrong, then pick a market to see the hedge.</p>
             </div>
 
-            <div className="grid md:grid-cols-2 gap-4 text-sm">
+            <div className="grid md:grid-cols-3 gap-4 text-sm">
               <label className="space-y-1">
                 <span className="text-muted-foreground">Expected Profit (USD)</span>
                 <span className="block text-[11px] text-muted-foreground/80">
@@ -256,6 +644,292 @@ export default function Results() {
                   placeholder="e.g., 10000"
                 />
               </label>
+              <label className="space-y-1">
+                <span className="text-muted-foreground">Cost of Capital (% per year, optional)</span>
+                <span className="block text-[11px] text-muted-foreground/80">
+                  What the cash tied up in contracts would earn until they settle.
+                </span>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  className="w-full rounded-md border border-border bg-background px-3 py-2"
+                  value={costOfCapitalInput}
+                  onChange={(event) => setCostOfCapitalInput(event.target.value)}
+                  placeholder="e.g., 6"
+                />
+              </label>
+            </div>
+
+            <div className="mt-4 grid md:grid-cols-3 gap-4 text-sm">
+              <label className="space-y-1">
+                <span className="text-muted-foreground">Hedge Sizing</span>
+                <span className="block text-[11px] text-muted-foreground/80">
+                  Cover the whole loss, or size to your risk appetite.
+                </span>
+                <select
+                  className="w-full rounded-md border border-border bg-background px-3 py-2"
+                  value={sizingMode}
+                  onChange={(event) => setSizingMode(event.target.value as "full" | "optimal")}
+                >
+                  <option value="full">Full coverage</option>
+                  <option value="optimal">Utility-optimal</option>
+                </select>
+              </label>
+              {sizingMode === "optimal" ? (
+                <>
+                  <label className="space-y-1">
+                    <span className="text-muted-foreground">Risk Aversion</span>
+                    <span className="block text-[11px] text-muted-foreground/80">
+                      0 ignores risk; 2 is typical; higher buys more protection.
+                    </span>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      min="0"
+                      step="0.5"
+                      className="w-full rounded-md border border-border bg-background px-3 py-2"
+                      value={riskAversionInput}
+                      onChange={(event) => setRiskAversionInput(event.target.value)}
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-muted-foreground">Your Event Odds (%, optional)</span>
+                    <span className="block text-[11px] text-muted-foreground/80">
+                      Leave blank to trust the market price.
+                    </span>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      className="w-full rounded-md border border-border bg-background px-3 py-2"
+                      value={beliefInput}
+                      onChange={(event) => setBeliefInput(event.target.value)}
+                      placeholder="e.g., 20"
+                    />
+                  </label>
+                </>
+              ) : null}
+            </div>
+            {selectedSizing ? (
+              <div className="mt-3 text-xs text-muted-foreground space-y-1">
+                <p>
+                  Optimal coverage: {(selectedSizing.optimal_coverage * 100).toFixed(0)}% (
+                  {selectedSizing.contracts_to_buy} contracts)
+                </p>
+                <p>{selectedSizing.explanation}</p>
+              </div>
+            ) : null}
+
+            {selectedRisk ? (
+              <div className="mt-4 rounded-xl border border-border/70 bg-muted/30 p-4 text-xs">
+                <p className="text-sm font-medium mb-2">
+                  Downside risk ({Math.round(selectedRisk.confidence * 100)}% confidence)
+                </p>
+                <div className="grid grid-cols-4 gap-2 text-muted-foreground">
+                  <span />
+                  <span>Unhedged</span>
+                  <span>Hedged</span>
+                  <span>Change</span>
+                  {[
+                    {
+                      label: "Value at risk",
+                      unhedged: formatCurrency(selectedRisk.unhedged.value_at_risk),
+                      hedged: formatCurrency(selectedRisk.hedged.value_at_risk),
+                      delta: formatSignedCurrency(selectedRisk.delta.value_at_risk),
+                    },
+                    {
+                      label: "Conditional VaR",
+                      unhedged: formatCurrency(selectedRisk.unhedged.conditional_value_at_risk),
+                      hedged: formatCurrency(selectedRisk.hedged.conditional_value_at_risk),
+                      delta: formatSignedCurrency(selectedRisk.delta.conditional_value_at_risk),
+                    },
+                    {
+                      label: "Chance of loss",
+                      unhedged: formatProbability(selectedRisk.unhedged.probability_of_loss),
+                      hedged: formatProbability(selectedRisk.hedged.probability_of_loss),
+                      delta: `${selectedRisk.delta.probability_of_loss > 0 ? "+" : ""}${formatProbability(
+                        selectedRisk.delta.probability_of_loss,
+                      )}`,
+                    },
+                    {
+                      label: "Worst-case profit",
+                      unhedged: formatCurrency(selectedRisk.unhedged.worst_case),
+                      hedged: formatCurrency(selectedRisk.hedged.worst_case),
+                      delta: formatSignedCurrency(selectedRisk.delta.worst_case),
+                    },
+                  ].map((row) => (
+                    <Fragment key={row.label}>
+                      <span>{row.label}</span>
+                      <span className="text-foreground">{row.unhedged}</span>
+                      <span className="text-foreground">{row.hedged}</span>
+                      <span className="text-foreground">{row.delta}</span>
+                    </Fragment>
+                  ))}
+                </div>
+                <p className="mt-2 text-[11px] text-muted-foreground/80">
+                  Value at risk is the loss you would not expect to exceed at this confidence; negative
+                  values mean you still come out ahead.
+                </p>
+              </div>
+            ) : null}
+
+            {selectedSensitivity ? (
+              <div className="mt-4 rounded-xl border border-border/70 bg-muted/30 p-4 text-xs">
+                <p className="text-sm font-medium">What moves profit if the event hits</p>
+                <p className="mb-2 text-muted-foreground">
+                  Change from {formatCurrency(selectedSensitivity.base_outcome)} as each input moves on its
+                  own: price ±5¢, loss ±25%, coverage ±25 points, budget ±50%.
+                </p>
+                <ChartContainer config={tornadoChartConfig} className="aspect-auto h-48 w-full">
+                  <BarChart data={tornadoData} layout="vertical" stackOffset="sign" margin={{ left: 8, right: 16 }}>
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" tickFormatter={(value: number) => formatSignedCurrency(value)} />
+                    <YAxis type="category" dataKey="label" width={110} tickLine={false} axisLine={false} />
+                    <ReferenceLine x={0} stroke="hsl(var(--border))" />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="low" stackId="swing" fill="var(--color-low)" radius={2} />
+                    <Bar dataKey="high" stackId="swing" fill="var(--color-high)" radius={2} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+            ) : null}
+
+            {ladderBrackets.length > 1 ? (
+              <div className="mt-4 rounded-xl border border-border/70 bg-muted/30 p-4 text-xs">
+                <p className="text-sm font-medium">Ladder hedge across strikes</p>
+                <p className="mb-3 text-muted-foreground">
+                  Describe how the loss grows with the underlying and the contracts are spread over the{" "}
+                  {ladderBrackets.length} strikes so the payout tracks it.
+                </p>
+                <div className="grid md:grid-cols-3 gap-4 text-sm">
+                  <label className="space-y-1">
+                    <span className="text-muted-foreground">Loss Grows</span>
+                    <select
+                      className="w-full rounded-md border border-border bg-background px-3 py-2"
+                      value={ladderDirection}
+                      onChange={(event) => setLadderDirection(event.target.value as "above" | "below")}
+                    >
+                      <option value="above">Above the threshold</option>
+                      <option value="below">Below the threshold</option>
+                    </select>
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-muted-foreground">Threshold</span>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      className="w-full rounded-md border border-border bg-background px-3 py-2"
+                      value={ladderThresholdInput}
+                      onChange={(event) => setLadderThresholdInput(event.target.value)}
+                      placeholder="e.g., 4"
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-muted-foreground">Loss per Unit (USD)</span>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      className="w-full rounded-md border border-border bg-background px-3 py-2"
+                      value={ladderLossPerUnitInput}
+                      onChange={(event) => setLadderLossPerUnitInput(event.target.value)}
+                      placeholder="e.g., 1000"
+                    />
+                  </label>
+                </div>
+                {selectedLadder ? (
+                  <div className="mt-3 text-muted-foreground">
+                    <div className="grid grid-cols-3 gap-2">
+                      <span>Strike</span>
+                      <span>Contracts</span>
+                      <span>Cost</span>
+                      {selectedLadder.legs.map((leg) => (
+                        <Fragment key={leg.outcome_id}>
+                          <span>{leg.label}</span>
+                          <span className="text-foreground">{leg.contracts.toLocaleString()}</span>
+                          <span className="text-foreground">{formatCurrency(leg.cost)}</span>
+                        </Fragment>
+                      ))}
+                    </div>
+                    <p className="mt-2">
+                      Total cost {formatCurrency(selectedLadder.total_cost)}
+                      {selectedLadder.budget_scale < 1
+                        ? ` (scaled to ${(selectedLadder.budget_scale * 100).toFixed(0)}% for the budget)`
+                        : ""}
+                      . Typical miss {formatCurrency(selectedLadder.residual_rms)} against{" "}
+                      {formatCurrency(selectedLadder.loss_rms)} unhedged; worst miss{" "}
+                      {formatCurrency(selectedLadder.residual_max)}.
+                    </p>
+                  </div>
+                ) : null}
+              </div>
+            ) : null}
+
+            <div className="mt-4 rounded-xl border border-border/70 bg-muted/30 p-4 text-xs">
+              <p className="text-sm font-medium">Roll plan for a longer season</p>
+              <p className="mb-3 text-muted-foreground">
+                When your risk runs longer than one market, the top signals are chained by their open
+                and close dates.
+              </p>
+              <div className="grid md:grid-cols-2 gap-4 text-sm">
+                {[
+                  { label: "Season Starts", value: seasonStartInput, onChange: setSeasonStartInput },
+                  { label: "Season Ends", value: seasonEndInput, onChange: setSeasonEndInput },
+                ].map((field) => (
+                  <label key={field.label} className="space-y-1">
+                    <span className="text-muted-foreground">{field.label}</span>
+                    <select
+                      className="w-full rounded-md border border-border bg-background px-3 py-2"
+                      value={field.value}
+                      onChange={(event) => field.onChange(event.target.value)}
+                    >
+                      <option value="">Pick a month</option>
+                      {SEASON_MONTHS.map((month, index) => (
+                        <option key={month} value={String(index + 1)}>
+                          {month}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              {rollPlan ? (
+                <div className="mt-3 space-y-2 text-muted-foreground">
+                  <div className="flex flex-wrap gap-2">
+                    {rollPlan.months.map((month) => (
+                      <span
+                        key={month.month}
+                        className={`px-2 py-0.5 rounded-full ${
+                          month.status === "covered"
+                            ? "bg-success/10 text-success"
+                            : month.status === "partial"
+                              ? "bg-warning/10 text-warning"
+                              : "bg-destructive/10 text-destructive"
+                        }`}
+                      >
+                        {month.label}: {(month.coverage * 100).toFixed(0)}%
+                      </span>
+                    ))}
+                  </div>
+                  {rollPlan.legs.map((leg) => (
+                    <p key={`${leg.market_id}:${leg.start}`}>
+                      {new Date(leg.start).toLocaleDateString()} – {new Date(leg.end).toLocaleDateString()}:{" "}
+                      {leg.title} · {leg.quote.side.toUpperCase()} {leg.quote.contracts_to_buy} contracts ·{" "}
+                      {formatCurrency(leg.quote.total_cost)}
+                    </p>
+                  ))}
+                  {rollPlan.gaps.map((gap) => (
+                    <p key={gap.start} className="text-warning">
+                      No market covers {new Date(gap.start).toLocaleDateString()} –{" "}
+                      {new Date(gap.end).toLocaleDateString()} ({Math.round(gap.days)} days).
+                    </p>
+                  ))}
+                  <p className="text-foreground">
+                    Estimated total cost {formatCurrency(rollPlan.total_cost)} ·{" "}
+                    {(rollPlan.coverage * 100).toFixed(0)}% of the season covered
+                  </p>
+                </div>
+              ) : seasonStartInput && seasonEndInput && !hedgeInputsValid ? (
+                <p className="mt-3 text-muted-foreground">Enter expected profit to build the plan.</p>
+              ) : null}
             </div>
           </motion.section>
 
@@ -278,38 +952,31 @@ export default function Results() {
             {topMarkets.length ? (
               <div className="space-y-3">
                 {topMarkets.map((market) => {
-                  const priceYesRaw =
-                    typeof market.price_yes === "number"
-                      ? market.price_yes
-                      : getFallbackYesPrice(market.market_ticker || market.ticker);
-                  const priceYesNormalized =
-                    priceYesRaw !== null
-                      ? priceYesRaw > 1
-                        ? priceYesRaw / 100
-                        : priceYesRaw
-                      : null;
-                  const hasValidPrice =
-                    priceYesNormalized !== null &&
-                    priceYesNormalized > 0 &&
-                    priceYesNormalized < 1;
+                  const {
+                    priceYes: priceYesNormalized,
+                    priceNo: priceNoNormalized,
+                  } = getMarketPrices(market);
+                  const inferredSide = inferHedgeSide(market.title, snapshot.analysis, market.title_strike);
+                  const side = getSide(market);
                   const isSelected = selectedMarketId === market.ticker;
-                  const quote =
-                    isSelected && hedgeInputsValid && hasValidPrice && assumedLossIfEvent !== null
-                      ? (() => {
-                          try {
-                            return computeHedgeQuote({
-                              market_id: market.market_ticker || market.ticker,
-                              price_yes: priceYesNormalized,
-                              expected_profit: expectedProfit,
-                              loss_if_event: assumedLossIfEvent,
-                              hedge_coverage: 1,
-                              max_hedge_cost: maxHedgeCost,
-                            });
-                          } catch {
-                            return null;
-                          }
-                        })()
-                      : null;
+                  const venueRoute = getVenueRoute(market);
+                  const orderBook =
+                    venueRoute?.best && venueRoute.best.listing !== venueRoute.own
+                      ? null
+                      : getOrderBook(market);
+                  const quote = isSelected ? selectedQuote : null;
+                  const history = isSelected ? histories[historyKey(market)] ?? null : null;
+                  const personalProbability = parseBelief(signalBeliefs[market.ticker]);
+                  const edge = (() => {
+                    if (personalProbability === null) return null;
+                    try {
+                      const quoteInput = quote ? null : buildQuoteInput(market);
+                      const edgeQuote = quote ?? (quoteInput ? computeHedgeQuote(quoteInput) : null);
+                      return edgeQuote ? analyzeHedgeEdge(edgeQuote, personalProbability) : null;
+                    } catch {
+                      return null;
+                    }
+                  })();
                   return (
                     <div
                       key={market.ticker}
@@ -327,6 +994,32 @@ export default function Results() {
                           </span>
                           <span>{market.ticker}</span>
                         </div>
+                        {market.strikes && market.strikes.length > 1 ? (
+                          <label className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                            <span>Strike</span>
+                            <select
+                              className="rounded-md border border-border bg-background px-2 py-1"
+                              value={market.market_ticker ?? ""}
+                              onChange={(event) =>
+                                setStrikeOverrides((current) => ({
+                                  ...current,
+                                  [market.ticker]: event.target.value,
+                                }))
+                              }
+                            >
+                              {market.strikes.map((strike) => (
+                                <option key={strike.market_ticker} value={strike.market_ticker}>
+                                  {strikeLabel(strike)}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                        ) : null}
+                        {titleStrikeLabel(market.title_strike) ? (
+                          <p className="text-xs text-muted-foreground">
+                            Strike: {titleStrikeLabel(market.title_strike)}
+                          </p>
+                        ) : null}
                         <p className="text-xs text-muted-foreground">{market.reasoning}</p>
                         {priceYesNormalized !== null ? (
                           <p className="text-xs text-muted-foreground">
@@ -336,8 +1029,159 @@ export default function Results() {
                         ) : (
                           <p className="text-xs text-muted-foreground">YES price unavailable</p>
                         )}
+                        {priceNoNormalized !== null ? (
+                          <p className="text-xs text-muted-foreground">
+                            NO price: {(priceNoNormalized * 100).toFixed(1)}% (
+                            {formatCurrency(priceNoNormalized)} per contract)
+                          </p>
+                        ) : null}
+                        {quoteLabel(market) ? (
+                          <p className="text-xs text-muted-foreground">{quoteLabel(market)}</p>
+                        ) : null}
+                        {venueRoute ? (
+                          <div className="mt-1 text-xs text-muted-foreground space-y-0.5">
+                            {venueRoute.listings.map((listing) => {
+                              const venueYes = venueSidePrice(listing, "yes");
+                              const venueNo = venueSidePrice(listing, "no");
+                              return (
+                                <p key={`${listing.platform}:${listing.id}`}>
+                                  {listing.platform.toUpperCase()}: YES{" "}
+                                  {venueYes !== null ? formatProbability(venueYes) : "-"} · NO{" "}
+                                  {venueNo !== null ? formatProbability(venueNo) : "-"}
+                                </p>
+                              );
+                            })}
+                            {venueRoute.best ? (
+                              <p className="text-foreground">
+                                Cheapest {side.toUpperCase()}: {venueRoute.best.listing.platform.toUpperCase()} at{" "}
+                                {formatCurrency(venueRoute.best.price)}
+                                {venueRoute.best.listing !== venueRoute.own ? " (hedge quoted there)" : ""}
+                              </p>
+                            ) : null}
+                            {market.venue_match?.kind === "near-equivalent" ? (
+                              <p className="text-[11px] text-muted-foreground/80">
+                                Listings look close but not identical; check both resolution rules.
+                              </p>
+                            ) : null}
+                          </div>
+                        ) : null}
+                        {priceYesNormalized !== null ? (
+                          <div className="mt-2 text-xs text-muted-foreground space-y-1">
+                            <label className="flex items-center gap-2">
+                              <span>Your odds of the loss event (%)</span>
+                              <input
+                                type="number"
+                                inputMode="decimal"
+                                min="0"
+                                max="100"
+                                className="w-20 rounded-md border border-border bg-background px-2 py-1"
+                                value={signalBeliefs[market.ticker] ?? ""}
+                                onChange={(event) =>
+                                  setSignalBeliefs((current) => ({
+                                    ...current,
+                                    [market.ticker]: event.target.value,
+                                  }))
+                                }
+                                placeholder="e.g., 25"
+                              />
+                            </label>
+                            {edge ? (
+                              <>
+                                <p>
+                                  <span
+                                    className={
+                                      edge.classification === "positive-EV"
+                                        ? "text-success font-medium"
+                                        : "text-warning font-medium"
+                                    }
+                                  >
+                                    {edge.classification === "positive-EV"
+                                      ? "Positive EV"
+                                      : "Insurance-priced"}
+                                  </span>{" "}
+                                  · Break-even: {formatProbability(edge.break_even_probability)} ·
+                                  Hedge EV: {formatSignedCurrency(edge.hedge_expected_value)}
+                                </p>
+                                <p>{edge.summary}</p>
+                              </>
+                            ) : personalProbability !== null && !hedgeInputsValid ? (
+                              <p>Enter expected profit to compare your odds with the price.</p>
+                            ) : null}
+                          </div>
+                        ) : null}
+                        {!isSelected ? (
+                          <p className="mt-2 text-xs text-muted-foreground">
+                            Buy side: {side.toUpperCase()}
+                            {side === inferredSide
+                              ? " (suggested)"
+                              : ` (suggested ${inferredSide.toUpperCase()})`}
+                          </p>
+                        ) : null}
                         {isSelected ? (
                           <div className="mt-2 text-xs text-muted-foreground space-y-1">
+                            <div className="flex items-center gap-2">
+                              <span>Buy side:</span>
+                              {(["yes", "no"] as const).map((option) => (
+                                <Button
+                                  key={option}
+                                  variant={side === option ? "default" : "outline"}
+                                  size="sm"
+                                  className="h-7 px-3 text-xs"
+                                  onClick={() =>
+                                    setSideOverrides((current) => ({
+                                      ...current,
+                                      [market.ticker]: option,
+                                    }))
+                                  }
+                                >
+                                  {option.toUpperCase()}
+                                </Button>
+                              ))}
+                              {side === inferredSide ? (
+                                <span className="text-[11px] text-muted-foreground/80">
+                                  (suggested)
+                                </span>
+                              ) : null}
+                            </div>
+                            {history && history.points.length > 1 ? (
+                              <div>
+                                <p>
+                                  Implied probability, last 30 days:{" "}
+                                  {formatProbability(history.points[0].probability)} →{" "}
+                                  {formatProbability(history.points[history.points.length - 1].probability)}
+                                </p>
+                                <ChartContainer config={historyChartConfig} className="aspect-auto h-24 w-full">
+                                  <LineChart data={history.points} margin={{ left: 0, right: 8, top: 4 }}>
+                                    <XAxis dataKey="captured_at" hide />
+                                    <YAxis domain={[0, 1]} hide />
+                                    <ChartTooltip
+                                      content={
+                                        <ChartTooltipContent
+                                          labelFormatter={(_, payload) =>
+                                            new Date(
+                                              String(payload?.[0]?.payload?.captured_at ?? ""),
+                                            ).toLocaleDateString()
+                                          }
+                                          formatter={(value) => formatProbability(Number(value))}
+                                        />
+                                      }
+                                    />
+                                    <Line
+                                      type="monotone"
+                                      dataKey="probability"
+                                      stroke="var(--color-probability)"
+                                      strokeWidth={2}
+                                      dot={false}
+                                    />
+                                  </LineChart>
+                                </ChartContainer>
+                              </div>
+                            ) : null}
+                            <p>
+                              {side === "yes"
+                                ? "Pays out if this market resolves YES."
+                                : "Pays out if this market resolves NO."}
+                            </p>
                             <p>
                               Assumed loss if event:{" "}
                               {assumedLossIfEvent !== null
@@ -347,9 +1191,38 @@ export default function Results() {
                             {quote ? (
                               <>
                                 <p>
-                                  Contracts: {quote.contracts_to_buy} · Cost:{" "}
-                                  {formatCurrency(quote.total_cost)}
+                                  {quote.side.toUpperCase()} contracts: {quote.contracts_to_buy} ·
+                                  Cost: {formatCurrency(quote.total_cost)}
                                 </p>
+                                {quote.fees > 0 ? (
+                                  <p>
+                                    Premium: {formatCurrency(quote.premium_cost)} · Exchange fees:{" "}
+                                    {formatCurrency(quote.fees)}
+                                  </p>
+                                ) : null}
+                                {orderBook ? (
+                                  <p>
+                                    Avg fill: {formatCurrency(quote.average_fill_price)} · Marginal:{" "}
+                                    {formatCurrency(quote.marginal_price)}
+                                    {quote.unfilled_contracts > 0
+                                      ? ` · Unfilled: ${quote.unfilled_contracts}`
+                                      : ""}
+                                  </p>
+                                ) : null}
+                                {quote.days_to_settlement !== null ? (
+                                  <p>
+                                    Settles in {quote.days_to_settlement} days
+                                    {quote.financing_cost > 0
+                                      ? ` · Financing: ${formatCurrency(quote.financing_cost)}`
+                                      : ""}
+                                    {quote.annualized_protection_cost !== null
+                                      ? ` · Annualized cost: ${(quote.annualized_protection_cost * 100).toFixed(1)}% of payout`
+                                      : ""}
+                                  </p>
+                                ) : null}
+                                {quote.slippage_warning ? (
+                                  <p className="text-warning">{quote.slippage_warning}</p>
+                                ) : null}
                                 <p>
                                   Profit if event: {formatCurrency(quote.profit_if_event)} · If no
                                   event: {formatCurrency(quote.profit_if_no_event)}
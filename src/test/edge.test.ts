@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { computeHedgeQuote } from "@/lib/hedgeCalculator";
+import { analyzeHedgeEdge } from "@/lib/hedge/edge";
+
+const quote = computeHedgeQuote({
+  market_id: "EDGE",
+  price_yes: 0.3,
+  expected_profit: 1000,
+  loss_if_event: 500,
+});
+
+describe("analyzeHedgeEdge", () => {
+  it("treats a belief above the price as positive EV", () => {
+    const result = analyzeHedgeEdge(quote, 0.45);
+
+    expect(result.classification).toBe("positive-EV");
+    expect(result.break_even_probability).toBeCloseTo(0.3, 6);
+    expect(result.edge).toBeCloseTo(0.15, 6);
+    expect(result.hedge_expected_value).toBeCloseTo(0.45 * 500 - 150, 6);
+    expect(result.market_probability).toBeCloseTo(0.3, 6);
+  });
+
+  it("calls a belief below break-even insurance-priced", () => {
+    const result = analyzeHedgeEdge(quote, 20);
+
+    expect(result.personal_probability).toBeCloseTo(0.2, 6);
+    expect(result.classification).toBe("insurance-priced");
+    expect(result.hedge_expected_value).toBeCloseTo(-50, 6);
+    expect(result.position_expected_value).toBeCloseTo(0.2 * 850 + 0.8 * 850, 6);
+    expect(result.summary).toContain("insurance");
+  });
+
+  it("folds fees into the break-even probability", () => {
+    const withFees = computeHedgeQuote({
+      market_id: "EDGE",
+      price_yes: 0.3,
+      expected_profit: 1000,
+      loss_if_event: 500,
+      source: "kalshi",
+    });
+
+    expect(analyzeHedgeEdge(withFees, 0.3).classification).toBe("insurance-priced");
+    expect(analyzeHedgeEdge(withFees, 0.3).break_even_probability).toBeGreaterThan(0.3);
+  });
+
+  it("rejects bad probabilities and empty hedges", () => {
+    expect(() => analyzeHedgeEdge(quote, -0.1)).toThrow("invalid_personal_probability");
+    const empty = computeHedgeQuote({
+      market_id: "EDGE",
+      price_yes: 0.3,
+      expected_profit: 1000,
+      loss_if_event: 500,
+      max_hedge_cost: 0,
+    });
+    expect(() => analyzeHedgeEdge(empty, 0.3)).toThrow("empty_hedge");
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { geoAdjustment, tagLocations, GEO_ADJUSTMENTS } from "@/lib/pipeline/geoTagging";
+
+describe("tagLocations", () => {
+  it("prefers the longest place name and tags its state and region", () => {
+    expect(tagLocations("Will NYC get more than 4 inches of rain?")).toEqual([
+      { scope: "city", name: "New York City", state: "NY", region: "US-Northeast" },
+    ]);
+    expect(tagLocations("Highest temperature in Kansas City")).toEqual([
+      { scope: "city", name: "Kansas City", state: "MO", region: "US-Midwest" },
+    ]);
+  });
+
+  it("only reads abbreviations in capitals", () => {
+    expect(tagLocations("Will US CPI be above 3%?").map((tag) => tag.scope)).toEqual(["national"]);
+    expect(tagLocations("Will rates hurt us?")).toEqual([]);
+  });
+
+  it("does not read Washington or Georgia as the state when the text means something else", () => {
+    const names = (text: string) => tagLocations(text).map((tag) => `${tag.scope}:${tag.name}`);
+    expect(names("Highest temperature in Washington, D.C. on Jul 4?")).toEqual(["city:Washington DC"]);
+    expect(names("Will Washington DC see snow in January?")).toEqual(["city:Washington DC"]);
+    expect(names("Will the Republic of Georgia join the EU by 2030?")).toEqual(["global:Global"]);
+    expect(names("Tbilisi protests: will Georgia hold new elections?")).toEqual([]);
+
+    expect(names("Will Washington wheat yields fall in 2026?")).toEqual(["state:Washington"]);
+    expect(names("Atlanta heat in Georgia this summer")).toEqual(["city:Atlanta", "state:Georgia"]);
+    // Words that merely co-occur with the country do not hide the state.
+    expect(names("Will Georgia pecan exports to the EU and Russia fall?")).toEqual([
+      "state:Georgia",
+      "global:Global",
+    ]);
+    expect(names("Will NATO pick Savannah, Georgia for its summit?")).toContain("state:Georgia");
+  });
+});
+
+describe("geoAdjustment", () => {
+  const florida = tagLocations("Orange grove in central Florida");
+
+  it("rewards nearby markets and penalizes distant local ones", () => {
+    expect(geoAdjustment(florida, tagLocations("Miami rainfall"))).toBe(GEO_ADJUSTMENTS.state);
+    expect(geoAdjustment(florida, tagLocations("Atlanta rainfall"))).toBe(GEO_ADJUSTMENTS.region);
+    expect(geoAdjustment(florida, tagLocations("New Orleans rainfall"))).toBe(GEO_ADJUSTMENTS.neighbor);
+    expect(geoAdjustment(florida, tagLocations("Seattle rainfall"))).toBe(GEO_ADJUSTMENTS.mismatch);
+  });
+
+  it("leaves national, global and untagged markets alone", () => {
+    expect(geoAdjustment(florida, tagLocations("US CPI above 3%"))).toBe(0);
+    expect(geoAdjustment(florida, tagLocations("OPEC output cut"))).toBe(0);
+    expect(geoAdjustment([], tagLocations("Seattle rainfall"))).toBe(0);
+  });
+});
@@ -1,5 +1,16 @@
-import { describe, it, expect } from "vitest";
-import { computeHedgeQuote, computeHedgeQuotePercent } from "@/lib/hedgeCalculator";
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import {
+  basketCandidatesFromScoredMarkets,
+  computeHedgeBasket,
+  computeHedgeQuote,
+  computeHedgeQuotePercent,
+  inferHedgeSide,
+  solveHedgeForBudget,
+  solveHedgeForProfitFloor,
+} from "@/lib/hedgeCalculator";
+import { createKalshiFeeSchedule, getFeeSchedule } from "@/lib/hedge/fees";
+import { normalizeOrderBookLevels, walkOrderBook } from "@/lib/hedge/orderBook";
+import type { ScoredMarket } from "@/lib/pipeline/snapshotPipeline";
 
 describe("computeHedgeQuote", () => {
   it("calculates without budget cap", () => {
@@ -73,6 +84,52 @@ describe("computeHedgeQuote", () => {
     expect(result.coverage_achieved).toBeCloseTo(1, 6);
   });
 
+  it("buys NO at the complement of the YES price", () => {
+    const result = computeHedgeQuote({
+      market_id: "SNOW",
+      price_yes: 0.7,
+      side: "no",
+      expected_profit: 1000,
+      loss_if_event: 500,
+    });
+
+    expect(result.side).toBe("no");
+    expect(result.price_contract).toBeCloseTo(0.3, 6);
+    expect(result.total_cost).toBeCloseTo(150, 6);
+    expect(result.event_probability).toBeCloseTo(0.3, 6);
+    expect(result.profit_if_event).toBeCloseTo(850, 6);
+    expect(result.expected_value).toBeCloseTo(850, 6);
+  });
+
+  it("prices NO at a stored ask when available", () => {
+    const result = computeHedgeQuote({
+      market_id: "SNOW",
+      price_yes: 0.7,
+      price_no: 0.32,
+      side: "no",
+      expected_profit: 1000,
+      loss_if_event: 100,
+      max_hedge_cost: 16,
+    });
+
+    expect(result.price_contract).toBeCloseTo(0.32, 6);
+    expect(result.contracts_to_buy).toBe(50);
+    expect(result.total_cost).toBeCloseTo(16, 6);
+  });
+
+  it("rejects invalid price_no", () => {
+    expect(() =>
+      computeHedgeQuote({
+        market_id: "SNOW",
+        price_yes: 0.7,
+        price_no: 1.2,
+        side: "no",
+        expected_profit: 1000,
+        loss_if_event: 100,
+      }),
+    ).toThrow("invalid_price_no");
+  });
+
   it("supports percent-of-loss mode", () => {
     const result = computeHedgeQuotePercent({
       market_id: "P1",
@@ -85,3 +142,378 @@ describe("computeHedgeQuote", () => {
     expect(result.contracts_needed).toBe(25);
   });
 });
+
+describe("computeHedgeBasket", () => {
+  it("prefers the cheapest effective coverage and spreads across markets", () => {
+    const result = computeHedgeBasket({
+      candidates: [
+        { market_id: "HURR", price_yes: 0.3, relevance_score: 10, hedging_utility_score: 5 },
+        { market_id: "ORANGE", price_yes: 0.2, relevance_score: 10, hedging_utility_score: 10 },
+      ],
+      expected_profit: 1000,
+      loss_if_event: 100,
+    });
+
+    expect(result.legs.map((leg) => leg.market_id)).toEqual(["ORANGE"]);
+    expect(result.legs[0].contracts_to_buy).toBe(100);
+    expect(result.total_cost).toBeCloseTo(20, 6);
+    expect(result.coverage_achieved).toBeCloseTo(1, 6);
+  });
+
+  it("combines partial proxies to reach the target", () => {
+    const result = computeHedgeBasket({
+      candidates: [
+        { market_id: "A", price_yes: 0.1, relevance_score: 10, hedging_utility_score: 5 },
+        { market_id: "B", price_yes: 0.1, relevance_score: 5, hedging_utility_score: 10 },
+        { market_id: "C", price_yes: 0.5, relevance_score: 10, hedging_utility_score: 10 },
+      ],
+      expected_profit: 500,
+      loss_if_event: 100,
+    });
+
+    expect(result.legs.map((leg) => leg.market_id)).toEqual(["A", "B"]);
+    expect(result.effective_payout).toBeCloseTo(100, 6);
+    expect(result.max_payout).toBe(200);
+    expect(result.total_cost).toBeCloseTo(20, 6);
+    expect(result.profit_if_event).toBeCloseTo(480, 6);
+    expect(result.profit_if_no_event).toBeCloseTo(480, 6);
+  });
+
+  it("respects the budget", () => {
+    const result = computeHedgeBasket({
+      candidates: [
+        { market_id: "A", price_yes: 0.5, relevance_score: 10, hedging_utility_score: 10 },
+      ],
+      expected_profit: 1000,
+      loss_if_event: 1000,
+      budget: 100,
+    });
+
+    expect(result.legs[0].contracts_to_buy).toBe(200);
+    expect(result.total_cost).toBeCloseTo(100, 6);
+    expect(result.coverage_achieved).toBeCloseTo(0.2, 6);
+    expect(result.budget_exhausted).toBe(true);
+  });
+
+  it("builds candidates from scored markets", () => {
+    const markets: ScoredMarket[] = [
+      {
+        platform: "kalshi",
+        ticker: "EVT",
+        title: "Event",
+        relevance_score: 8,
+        hedging_utility_score: 6,
+        timing_score: 5,
+        overall_score: 6.3,
+        reasoning: "",
+        market_ticker: "EVT-M1",
+        price_yes: 42,
+      },
+      {
+        platform: "kalshi",
+        ticker: "NOPRICE",
+        title: "No price",
+        relevance_score: 8,
+        hedging_utility_score: 6,
+        timing_score: 5,
+        overall_score: 6.3,
+        reasoning: "",
+        price_yes: null,
+      },
+    ];
+
+    expect(basketCandidatesFromScoredMarkets(markets)).toEqual([
+      { market_id: "EVT-M1", price_yes: 0.42, relevance_score: 8, hedging_utility_score: 6 },
+    ]);
+    // Stored prices are always cents, so a 1¢ market stays at $0.01.
+    expect(basketCandidatesFromScoredMarkets([{ ...markets[0], price_yes: 1 }])[0].price_yes).toBe(0.01);
+  });
+
+  it("rejects a basket without usable markets", () => {
+    expect(() =>
+      computeHedgeBasket({
+        candidates: [{ market_id: "Z", price_yes: 0.4, relevance_score: 0, hedging_utility_score: 9 }],
+        expected_profit: 100,
+        loss_if_event: 50,
+      }),
+    ).toThrow("empty_basket");
+  });
+});
+
+describe("inferHedgeSide", () => {
+  const skiResort = {
+    primary_risk_factor: "low snowfall",
+    is_long: "snowfall in Colorado",
+    is_short: "warm temperatures",
+  };
+
+  it("buys NO when YES means the helpful variable shows up", () => {
+    expect(inferHedgeSide("Will Denver get more than 10 inches of snow in December?", skiResort)).toBe(
+      "no",
+    );
+  });
+
+  it("buys YES when YES means the harmful variable shows up", () => {
+    expect(inferHedgeSide("Will Denver temperatures exceed 50 degrees in January?", skiResort)).toBe(
+      "yes",
+    );
+    expect(inferHedgeSide("Will Colorado snowfall fall below average?", skiResort)).toBe("yes");
+  });
+
+  it("defaults to YES without an analysis or overlap", () => {
+    expect(inferHedgeSide("Will CPI exceed 3%?", null)).toBe("yes");
+    expect(inferHedgeSide("Will CPI exceed 3%?", skiResort)).toBe("yes");
+  });
+});
+
+describe("fee schedules", () => {
+  it("rounds Kalshi fees up to the next cent", () => {
+    const kalshi = createKalshiFeeSchedule();
+    expect(kalshi.feeFor(100, 0.5)).toBeCloseTo(1.75, 6);
+    expect(kalshi.feeFor(1, 0.05)).toBeCloseTo(0.01, 6);
+    expect(kalshi.feeFor(0, 0.5)).toBe(0);
+  });
+
+  it("reports fees separately and includes them in the cost", () => {
+    const result = computeHedgeQuote({
+      market_id: "K1",
+      price_yes: 0.5,
+      expected_profit: 1000,
+      loss_if_event: 100,
+      source: "kalshi",
+    });
+
+    expect(result.fee_schedule).toBe("kalshi-taker");
+    expect(result.premium_cost).toBeCloseTo(50, 6);
+    expect(result.fees).toBeCloseTo(1.75, 6);
+    expect(result.total_cost).toBeCloseTo(51.75, 6);
+    expect(result.profit_if_no_event).toBeCloseTo(948.25, 6);
+  });
+
+  it("keeps fees inside the budget cap", () => {
+    const result = computeHedgeQuote({
+      market_id: "K2",
+      price_yes: 0.5,
+      expected_profit: 2000,
+      loss_if_event: 1000,
+      max_hedge_cost: 200,
+      source: "kalshi",
+    });
+
+    expect(result.contracts_to_buy).toBe(386);
+    expect(result.total_cost).toBeLessThanOrEqual(200);
+    expect(result.premium_cost + result.fees).toBeCloseTo(result.total_cost, 6);
+  });
+
+  it("charges nothing on Polymarket", () => {
+    expect(getFeeSchedule("polymarket")?.feeFor(1000, 0.3)).toBe(0);
+    expect(getFeeSchedule("unknown")).toBeNull();
+  });
+});
+
+describe("order book pricing", () => {
+  const book = [
+    { price: 0.42, size: 200 },
+    { price: 0.4, size: 100 },
+    { price: 0.45, size: 300 },
+  ];
+
+  it("reads levels as dollars, including a 1¢ level", () => {
+    expect(normalizeOrderBookLevels([{ price: 0.45, size: 10 }, { price: 0.01, size: 5 }])).toEqual([
+      { price: 0.01, size: 5 },
+      { price: 0.45, size: 10 },
+    ]);
+  });
+
+  it("walks ask levels cheapest first", () => {
+    const fill = walkOrderBook(normalizeOrderBookLevels(book), 250);
+    expect(fill.filled).toBe(250);
+    expect(fill.premium).toBeCloseTo(100 * 0.4 + 150 * 0.42, 6);
+    expect(fill.marginal_price).toBeCloseTo(0.42, 6);
+    expect(fill.unfilled).toBe(0);
+  });
+
+  it("reports average fill, marginal price and slippage on the quote", () => {
+    const result = computeHedgeQuote({
+      market_id: "OB1",
+      price_yes: 0.4,
+      expected_profit: 1000,
+      loss_if_event: 500,
+      order_book: book,
+    });
+
+    expect(result.contracts_to_buy).toBe(500);
+    expect(result.total_cost).toBeCloseTo(40 + 84 + 90, 6);
+    expect(result.average_fill_price).toBeCloseTo(0.428, 6);
+    expect(result.marginal_price).toBeCloseTo(0.45, 6);
+    expect(result.unfilled_contracts).toBe(0);
+    expect(result.slippage).toBeCloseTo(0.028, 6);
+    expect(result.slippage_warning).toContain("above the best ask");
+  });
+
+  it("flags unfilled contracts when the book is too thin", () => {
+    const result = computeHedgeQuote({
+      market_id: "OB2",
+      price_yes: 0.4,
+      expected_profit: 1000,
+      loss_if_event: 1000,
+      order_book: book,
+    });
+
+    expect(result.contracts_needed).toBe(1000);
+    expect(result.contracts_to_buy).toBe(600);
+    expect(result.unfilled_contracts).toBe(400);
+    expect(result.slippage_warning).toContain("400 would stay unfilled");
+  });
+
+  it("caps book fills by budget", () => {
+    const result = computeHedgeQuote({
+      market_id: "OB3",
+      price_yes: 0.4,
+      expected_profit: 1000,
+      loss_if_event: 500,
+      max_hedge_cost: 82,
+      order_book: book,
+    });
+
+    expect(result.contracts_to_buy).toBe(200);
+    expect(result.total_cost).toBeCloseTo(82, 6);
+  });
+});
+
+describe("hedge solvers", () => {
+  const base = {
+    market_id: "SOLVE",
+    price_yes: 0.3,
+    expected_profit: 1000,
+    loss_if_event: 1500,
+  };
+
+  it("finds the cheapest contract count that clears a profit floor", () => {
+    const result = solveHedgeForProfitFloor({ ...base, profit_floor: 0 });
+
+    // -500 + 0.7n >= 0
+    expect(result.feasible).toBe(true);
+    expect(result.contracts_to_buy).toBe(715);
+    expect(result.quote.profit_if_event).toBeGreaterThanOrEqual(0);
+    expect(result.hedge_coverage).toBeCloseTo(715 / 1500, 6);
+  });
+
+  it("needs no contracts when the floor already holds", () => {
+    const result = solveHedgeForProfitFloor({ ...base, profit_floor: -600 });
+
+    expect(result.feasible).toBe(true);
+    expect(result.contracts_to_buy).toBe(0);
+  });
+
+  it("explains infeasible floors", () => {
+    const tooHigh = solveHedgeForProfitFloor({ ...base, profit_floor: 900 });
+    expect(tooHigh.feasible).toBe(false);
+    expect(tooHigh.reason).toBe("floor_above_full_coverage");
+    expect(tooHigh.message).toContain("$550.00");
+
+    const overBudget = solveHedgeForProfitFloor({ ...base, profit_floor: 0, max_hedge_cost: 100 });
+    expect(overBudget.reason).toBe("over_budget");
+    expect(overBudget.contracts_to_buy).toBe(715);
+
+    const thinBook = solveHedgeForProfitFloor({
+      ...base,
+      profit_floor: 0,
+      order_book: [{ price: 0.3, size: 400 }],
+    });
+    expect(thinBook.reason).toBe("insufficient_depth");
+  });
+
+  it("spends the budget on full coverage when priced fairly", () => {
+    const result = solveHedgeForBudget({ ...base, budget: 1000 });
+
+    expect(result.feasible).toBe(true);
+    expect(result.contracts_to_buy).toBe(1500);
+    expect(result.utility).toBeGreaterThan(result.unhedged_utility);
+
+    const capped = solveHedgeForBudget({ ...base, budget: 200 });
+    expect(capped.contracts_to_buy).toBe(666);
+  });
+
+  it("skips the hedge when the buyer thinks the event is unlikely", () => {
+    const result = solveHedgeForBudget({
+      ...base,
+      budget: 1000,
+      risk_aversion: 0,
+      event_probability: 0.05,
+    });
+
+    expect(result.contracts_to_buy).toBe(0);
+    expect(result.message).toContain("lowers expected utility");
+  });
+
+  it("flags budgets below one contract", () => {
+    const result = solveHedgeForBudget({ ...base, budget: 0.1 });
+
+    expect(result.feasible).toBe(false);
+    expect(result.reason).toBe("budget_below_one_contract");
+  });
+});
+
+describe("cost of capital", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const base = {
+    market_id: "CAPITAL",
+    price_yes: 0.3,
+    expected_profit: 1000,
+    loss_if_event: 500,
+  };
+
+  it("charges financing on the premium until settlement", () => {
+    const result = computeHedgeQuote({
+      ...base,
+      annual_cost_of_capital: 0.08,
+      close_time: "2027-01-01T00:00:00Z",
+    });
+
+    expect(result.days_to_settlement).toBe(365);
+    expect(result.financing_cost).toBeCloseTo(12, 6);
+    expect(result.total_cost_with_financing).toBeCloseTo(162, 6);
+    expect(result.profit_if_no_event).toBeCloseTo(838, 6);
+    expect(result.annualized_protection_cost).toBeCloseTo(162 / 500, 6);
+  });
+
+  it("annualizes so short and long horizons compare fairly", () => {
+    const short = computeHedgeQuote({ ...base, close_time: "2026-04-01T00:00:00Z" });
+    const long = computeHedgeQuote({ ...base, close_time: "2027-01-01T00:00:00Z" });
+
+    expect(short.days_to_settlement).toBe(90);
+    expect(short.financing_cost).toBe(0);
+    expect(short.annualized_protection_cost).toBeCloseTo((150 / 500) * (365 / 90), 6);
+    expect(short.annualized_protection_cost).toBeGreaterThan(long.annualized_protection_cost ?? 0);
+  });
+
+  it("accepts percentages and rejects negative rates", () => {
+    const percent = computeHedgeQuote({
+      ...base,
+      annual_cost_of_capital: 8,
+      close_time: "2027-01-01T00:00:00Z",
+    });
+    expect(percent.financing_cost).toBeCloseTo(12, 6);
+
+    expect(() => computeHedgeQuote({ ...base, annual_cost_of_capital: -1 })).toThrow(
+      "invalid_annual_cost_of_capital",
+    );
+  });
+
+  it("leaves quotes without a close time unchanged", () => {
+    const result = computeHedgeQuote({ ...base, annual_cost_of_capital: 0.08 });
+
+    expect(result.days_to_settlement).toBeNull();
+    expect(result.financing_cost).toBe(0);
+    expect(result.annualized_protection_cost).toBeNull();
+  });
+});
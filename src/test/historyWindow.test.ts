@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, describe, it, expect, vi } from "vitest";
+import Database from "better-sqlite3";
+import { migrateDatabase } from "../../backend/migrate.js";
+import {
+  downsampleHistory,
+  historyMarketTicker,
+  parseHistoryWindow,
+} from "../../backend/history.js";
+
+const NOW = Date.parse("2026-10-01T00:00:00.000Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("parseHistoryWindow", () => {
+  it("defaults to the last 30 days at 200 points", () => {
+    expect(parseHistoryWindow({}, NOW)).toEqual({
+      from: new Date(NOW - 30 * DAY_MS).toISOString(),
+      to: new Date(NOW).toISOString(),
+      points: 200,
+    });
+  });
+
+  it("resolves ranges against `to` and honours explicit bounds", () => {
+    expect(parseHistoryWindow({ range: "7d", to: "2026-09-10T00:00:00Z" }, NOW)).toMatchObject({
+      from: "2026-09-03T00:00:00.000Z",
+      to: "2026-09-10T00:00:00.000Z",
+    });
+    expect(parseHistoryWindow({ range: "all" }, NOW)?.from).toBe(new Date(0).toISOString());
+    expect(
+      parseHistoryWindow({ from: "2026-08-01T00:00:00Z", to: "2026-08-02T00:00:00Z" }, NOW),
+    ).toMatchObject({ from: "2026-08-01T00:00:00.000Z", to: "2026-08-02T00:00:00.000Z" });
+  });
+
+  it("clamps points to 2..1000", () => {
+    expect(parseHistoryWindow({ points: "1" }, NOW)?.points).toBe(2);
+    expect(parseHistoryWindow({ points: "50.9" }, NOW)?.points).toBe(50);
+    expect(parseHistoryWindow({ points: "5000" }, NOW)?.points).toBe(1000);
+  });
+
+  it("rejects unknown ranges, bad dates and inverted windows", () => {
+    expect(parseHistoryWindow({ range: "2w" }, NOW)).toBeNull();
+    expect(parseHistoryWindow({ from: "yesterday" }, NOW)).toBeNull();
+    expect(
+      parseHistoryWindow({ from: "2026-09-02T00:00:00Z", to: "2026-09-01T00:00:00Z" }, NOW),
+    ).toBeNull();
+    expect(parseHistoryWindow({ points: "many" }, NOW)).toBeNull();
+  });
+});
+
+describe("downsampleHistory", () => {
+  const from = "2026-09-01T00:00:00.000Z";
+  const to = "2026-09-11T00:00:00.000Z";
+  const rows = Array.from({ length: 40 }, (_, index) => ({
+    captured_at: new Date(Date.parse(from) + index * 6 * 60 * 60 * 1000).toISOString(),
+    price_yes: index,
+  }));
+
+  it("keeps the last observation of each bucket", () => {
+    const sampled = downsampleHistory(rows, 10, from, to);
+    expect(sampled).toHaveLength(10);
+    expect(sampled.map((row) => row.price_yes)).toEqual([3, 7, 11, 15, 19, 23, 27, 31, 35, 39]);
+  });
+
+  it("returns short series untouched", () => {
+    expect(downsampleHistory(rows.slice(0, 5), 10, from, to)).toHaveLength(5);
+  });
+});
+
+describe("per-strike history", () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeAll(async () => {
+    vi.stubEnv("KALSHI_HTTP_MODE", "live");
+    vi.stubEnv("KALSHI_RPS", "1000");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const closeTime = new Date(Date.now() + 30 * DAY_MS).toISOString();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        const economics = new URL(url).searchParams.get("category") === "Economics";
+        const markets = [
+          { ticker: "FED-T4", yes_bid: 30, close_time: closeTime, status: "active" },
+          { ticker: "FED-T4.25", yes_bid: 55, close_time: closeTime, status: "active" },
+        ];
+        const events = economics
+          ? [{ event_ticker: "FED", title: "Fed rate", category: "Economics", markets }]
+          : [];
+        return new Response(JSON.stringify({ events, cursor: "" }), { status: 200 });
+      }),
+    );
+
+    db = new Database(":memory:");
+    await migrateDatabase(db);
+    const sync = await import("../../backend/sync.js");
+    await sync.syncKalshiMarkets(db);
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("records every strike and maps the event ticker to its primary strike", () => {
+    const rows = db
+      .prepare("SELECT ticker, market_ticker, price_yes FROM price_history ORDER BY market_ticker")
+      .all();
+    expect(rows).toEqual([
+      { ticker: "FED", market_ticker: "FED-T4", price_yes: 30 },
+      { ticker: "FED", market_ticker: "FED-T4.25", price_yes: 55 },
+    ]);
+    expect(historyMarketTicker(db, "FED")).toBe("FED-T4");
+    expect(historyMarketTicker(db, "FED-T4.25")).toBe("FED-T4.25");
+  });
+});
@@ -0,0 +1,71 @@
+import { afterAll, beforeAll, describe, it, expect, vi } from "vitest";
+import Database from "better-sqlite3";
+import { migrateDatabase } from "../../backend/migrate.js";
+
+// Keyed by market ticker; Kalshi returns bids only, in cents or in dollars.
+const books: Record<string, unknown> = {
+  "HIGH-B72": { orderbook: { yes: [[40, 10], [38, 5]], no: [[55, 7], [100, 3]] } },
+  "HIGH-T74": { orderbook: { yes_dollars: [["0.2500", 12]], no_dollars: null } },
+  // Cent arrays are cents even at 1¢, and dollar arrays are dollars even at $0.99.
+  "HIGH-T76": { orderbook: { yes: [[1, 40]], no_dollars: [["0.9900", 8]] } },
+};
+
+let sync: typeof import("../../backend/sync.js");
+
+beforeAll(async () => {
+  vi.stubEnv("KALSHI_HTTP_MODE", "live");
+  vi.stubEnv("KALSHI_RPS", "1000");
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) => {
+      const ticker = decodeURIComponent(new URL(url).pathname.split("/").slice(-2)[0] || "");
+      const book = books[ticker];
+      return book
+        ? new Response(JSON.stringify(book), { status: 200 })
+        : new Response("{}", { status: 404 });
+    }),
+  );
+  sync = await import("../../backend/sync.js");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("syncKalshiOrderBooks", () => {
+  it("stores each side's asks as 100 minus the opposite side's bids for every strike", async () => {
+    const db = new Database(":memory:");
+    await migrateDatabase(db);
+    const insert = db.prepare(
+      "INSERT INTO markets (ticker, title, platform, market_ticker) VALUES (?, 'Highest temperature', 'kalshi', ?)",
+    );
+    insert.run("HIGH", "HIGH-B72");
+    insert.run("HIGH-T76", "HIGH-T76");
+    insert.run("GONE-1", "GONE-1");
+    // HIGH's second strike is only in its ladder; HIGH-T76 and GONE-1 have no stored strikes.
+    const insertStrike = db.prepare(
+      "INSERT INTO event_markets (market_ticker, event_ticker, title, position) VALUES (?, 'HIGH', 'Highest temperature', ?)",
+    );
+    insertStrike.run("HIGH-B72", 0);
+    insertStrike.run("HIGH-T74", 1);
+
+    expect(await sync.syncKalshiOrderBooks(db)).toEqual({ fetched: 3, stored: 3, failed: 1 });
+
+    const levels = db
+      .prepare("SELECT market_ticker, side, price, size FROM order_book_levels ORDER BY market_ticker, side, price")
+      .all();
+    expect(levels).toEqual([
+      // A NO bid at 55 is a YES ask at 45; the NO bid at 100 has no YES price and is dropped.
+      { market_ticker: "HIGH-B72", side: "no", price: 0.6, size: 10 },
+      { market_ticker: "HIGH-B72", side: "no", price: 0.62, size: 5 },
+      { market_ticker: "HIGH-B72", side: "yes", price: 0.45, size: 7 },
+      // A one-sided book only has asks on the other side.
+      { market_ticker: "HIGH-T74", side: "no", price: 0.75, size: 12 },
+      { market_ticker: "HIGH-T76", side: "no", price: 0.99, size: 40 },
+      { market_ticker: "HIGH-T76", side: "yes", price: 0.01, size: 8 },
+    ]);
+  });
+});
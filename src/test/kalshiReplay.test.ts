@@ -0,0 +1,45 @@
+import { afterAll, beforeAll, describe, it, expect, vi } from "vitest";
+import Database from "better-sqlite3";
+import { migrateDatabase } from "../../backend/migrate.js";
+import { resetKalshiReplay } from "../../server/lib/kalshiTransport.js";
+
+let sync: typeof import("../../backend/sync.js");
+
+beforeAll(async () => {
+  // The fixtures close in 2027; pin the clock so the close-window filter keeps them. Only Date is
+  // faked, so the transport's rate limiter and retry backoff still run on real timers.
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-10-19T12:00:00Z"));
+  vi.stubEnv("KALSHI_HTTP_MODE", "replay");
+  vi.stubEnv("KALSHI_RPS", "1000");
+  vi.stubEnv("KALSHI_REPLAY_RATE_LIMIT_EVERY", "0");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  sync = await import("../../backend/sync.js");
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("runKalshiSync against the committed fixtures", () => {
+  it("syncs markets, order books and resolutions without touching the network", async () => {
+    resetKalshiReplay();
+    const db = new Database(":memory:");
+    await migrateDatabase(db);
+
+    // The recorded Economics page starts with a 429, so this also covers the retry.
+    const result = await sync.runKalshiSync(db);
+    expect(result.kalshi).toMatchObject({ error: null, added: 3 });
+    // Books for every strike of each event, not just the primary ones.
+    expect(result.orderBooks).toMatchObject({ stored: 6, failed: 0 });
+    expect(result.resolutions).toMatchObject({ failed: 0 });
+
+    // Every recorded strike has its market payload, so a resolution pass over all of them works too.
+    db.prepare("UPDATE markets SET stale = 1").run();
+    const resolutions = await sync.syncKalshiResolutions(db);
+    expect(resolutions).toMatchObject({ checked: 6, settled: 0, failed: 0 });
+  }, 10_000);
+});
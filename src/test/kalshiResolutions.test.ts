@@ -0,0 +1,120 @@
+import { afterAll, beforeAll, describe, it, expect, vi } from "vitest";
+import Database from "better-sqlite3";
+import { migrateDatabase } from "../../backend/migrate.js";
+
+const SETTLED_AT = "2026-10-18T20:00:00Z";
+const PAST = "2026-10-18T18:00:00.000Z";
+
+const market = (ticker: string, fields: Record<string, unknown>) => ({
+  market: { ticker, close_time: PAST, ...fields },
+});
+
+// Keyed by market ticker; anything else is a 404.
+const payloads: Record<string, unknown> = {
+  "HIGH-B72": market("HIGH-B72", { status: "settled", result: "yes", settlement_ts: SETTLED_AT }),
+  "HIGH-T74": market("HIGH-T74", { status: "settled", result: "no", settlement_ts: SETTLED_AT }),
+  "HIGH-T70": market("HIGH-T70", { status: "closed", result: "" }),
+  "RAIN-4": market("RAIN-4", { status: "finalized", result: "void", settlement_value: 50 }),
+};
+
+let sync: typeof import("../../backend/sync.js");
+
+beforeAll(async () => {
+  vi.stubEnv("KALSHI_HTTP_MODE", "live");
+  vi.stubEnv("KALSHI_RPS", "1000");
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) => {
+      const ticker = decodeURIComponent(new URL(url).pathname.split("/").pop() || "");
+      const payload = payloads[ticker];
+      return payload
+        ? new Response(JSON.stringify(payload), { status: 200 })
+        : new Response("{}", { status: 404 });
+    }),
+  );
+  sync = await import("../../backend/sync.js");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("parseKalshiResolution", () => {
+  it("reads YES and NO settlements", () => {
+    expect(sync.parseKalshiResolution(payloads["HIGH-B72"])).toEqual({
+      status: "settled",
+      result: "yes",
+      settlement_value: 1,
+      settled_at: "2026-10-18T20:00:00.000Z",
+      settled: true,
+    });
+    expect(sync.parseKalshiResolution(payloads["HIGH-T74"])).toMatchObject({
+      result: "no",
+      settlement_value: 0,
+      settled: true,
+    });
+  });
+
+  it("keeps the settlement value of a voided market", () => {
+    expect(sync.parseKalshiResolution(payloads["RAIN-4"])).toMatchObject({
+      status: "finalized",
+      result: "void",
+      settlement_value: 0.5,
+      settled: true,
+    });
+  });
+
+  it("leaves closed markets without a result unsettled", () => {
+    expect(sync.parseKalshiResolution(payloads["HIGH-T70"])).toMatchObject({
+      status: "closed",
+      result: null,
+      settled_at: null,
+      settled: false,
+    });
+    expect(sync.parseKalshiResolution({ market: { status: "active", result: "yes" } }).settled).toBe(false);
+  });
+});
+
+describe("syncKalshiResolutions", () => {
+  it("settles closed strikes and falls back to the strike bounds for the bracket", async () => {
+    const db = new Database(":memory:");
+    await migrateDatabase(db);
+    const insert = db.prepare(
+      `INSERT INTO event_markets (market_ticker, event_ticker, title, subtitle, strike_type, floor_strike, cap_strike, close_time, status)
+       VALUES (?, ?, ?, NULL, ?, ?, ?, ?, 'closed')`,
+    );
+    insert.run("HIGH-T70", "HIGH", "Highest temperature", "less", null, 70, PAST);
+    insert.run("HIGH-B72", "HIGH", "Highest temperature", "between", 72, 73, PAST);
+    insert.run("HIGH-T74", "HIGH", "Highest temperature", "greater", 74, null, PAST);
+    insert.run("RAIN-4", "RAIN", "NYC rain", "greater", 4, null, PAST);
+    insert.run("GONE-1", "GONE", "Delisted", null, null, null, PAST);
+
+    const result = await sync.syncKalshiResolutions(db);
+    expect(result).toEqual({ pending: 5, checked: 4, settled: 3, failed: 1 });
+
+    const rows = Object.fromEntries(
+      (
+        db
+          .prepare("SELECT market_ticker, status, result, bracket, settlement_value, settled_at FROM market_resolutions")
+          .all() as Array<{ market_ticker: string }>
+      ).map((row) => [row.market_ticker, row]),
+    );
+    expect(rows["HIGH-B72"]).toMatchObject({
+      status: "settled",
+      result: "yes",
+      bracket: "72 to 73",
+      settlement_value: 1,
+    });
+    expect(rows["HIGH-T74"]).toMatchObject({ status: "settled", result: "no", bracket: null });
+    // A single-strike event has no bracket to name.
+    expect(rows["RAIN-4"]).toMatchObject({ result: "void", bracket: null, settlement_value: 0.5 });
+    expect(rows["HIGH-T70"]).toMatchObject({ status: "closed", result: null, settled_at: null });
+    expect(rows["GONE-1"]).toMatchObject({ status: "pending", settled_at: null });
+
+    // Settled rows are not fetched again; the rest are.
+    expect(await sync.syncKalshiResolutions(db)).toMatchObject({ pending: 2, settled: 0 });
+  });
+});
@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, describe, it, expect, vi } from "vitest";
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+import { fixtureKey, kalshiFetch, resetKalshiReplay } from "../../server/lib/kalshiTransport.js";
+
+let server: http.Server;
+let baseUrl: string;
+let fixturesDir: string;
+let hits = 0;
+
+beforeAll(async () => {
+  fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), "kalshi-fixtures-"));
+  server = http.createServer((req, res) => {
+    hits += 1;
+    const url = new URL(req.url || "/", "http://localhost");
+    const cursor = url.searchParams.get("cursor");
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify(
+        cursor
+          ? { events: [{ event_ticker: "EVT-2" }], cursor: "" }
+          : { events: [{ event_ticker: "EVT-1" }], cursor: "page-2" },
+      ),
+    );
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  vi.stubEnv("KALSHI_FIXTURES_DIR", fixturesDir);
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  fs.rmSync(fixturesDir, { recursive: true, force: true });
+});
+
+const readEvents = async (url: string) => {
+  const response = await kalshiFetch(url);
+  return { status: response.status, body: await response.json() };
+};
+
+describe("kalshi record/replay", () => {
+  it("keys fixtures by path and sorted query, not host", () => {
+    expect(fixtureKey("https://api.elections.kalshi.com/trade-api/v2/events?limit=5&category=Economics")).toBe(
+      fixtureKey("http://127.0.0.1:9/trade-api/v2/events?category=Economics&limit=5"),
+    );
+  });
+
+  it("records paginated responses and replays them without the network", async () => {
+    vi.stubEnv("KALSHI_HTTP_MODE", "record");
+    const first = await readEvents(`${baseUrl}/trade-api/v2/events?limit=1`);
+    const second = await readEvents(`${baseUrl}/trade-api/v2/events?limit=1&cursor=${first.body.cursor}`);
+    expect(second.body.events[0].event_ticker).toBe("EVT-2");
+    expect(fs.readdirSync(fixturesDir)).toHaveLength(2);
+
+    vi.stubEnv("KALSHI_HTTP_MODE", "replay");
+    resetKalshiReplay();
+    const hitsBefore = hits;
+    const replayedFirst = await readEvents("https://api.elections.kalshi.com/trade-api/v2/events?limit=1");
+    const replayedSecond = await readEvents(
+      `https://api.elections.kalshi.com/trade-api/v2/events?limit=1&cursor=${replayedFirst.body.cursor}`,
+    );
+
+    expect(hits).toBe(hitsBefore);
+    expect(replayedFirst.body).toEqual(first.body);
+    expect(replayedSecond.body).toEqual(second.body);
+    await expect(kalshiFetch(`${baseUrl}/trade-api/v2/series`)).rejects.toThrow("kalshi_fixture_missing");
+  });
+
+  it("injects 429s with retry-after on a fixed schedule", async () => {
+    vi.stubEnv("KALSHI_HTTP_MODE", "replay");
+    vi.stubEnv("KALSHI_REPLAY_RATE_LIMIT_EVERY", "2");
+    vi.stubEnv("KALSHI_REPLAY_RETRY_AFTER_SEC", "3");
+    resetKalshiReplay();
+
+    const url = `${baseUrl}/trade-api/v2/events?limit=1`;
+    const statuses: number[] = [];
+    for (let i = 0; i < 4; i += 1) {
+      const response = await kalshiFetch(url);
+      statuses.push(response.status);
+      if (response.status === 429) expect(response.headers.get("retry-after")).toBe("3");
+    }
+
+    expect(statuses).toEqual([200, 429, 200, 429]);
+  });
+});
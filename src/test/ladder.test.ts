@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  bracketsFromOutcomes,
+  bracketsFromStrikes,
+  buildLadderHedge,
+  lossAboveThreshold,
+  parseBracketLabel,
+} from "@/lib/hedge/ladder";
+
+const rainfallOutcomes = [
+  { id: "b1", label: "Below 2 inches", price: 0.3 },
+  { id: "b2", label: "2 to 4 inches", price: 0.4 },
+  { id: "b3", label: "4-6 inches", price: 0.2 },
+  { id: "b4", label: "6 inches or more", price: 0.1 },
+];
+
+describe("parseBracketLabel", () => {
+  it("parses bounded and open-ended brackets", () => {
+    expect(parseBracketLabel("Below 2 inches")).toEqual({ lower: null, upper: 2 });
+    expect(parseBracketLabel("2 to 4 inches")).toEqual({ lower: 2, upper: 4 });
+    expect(parseBracketLabel("3.0% - 3.2%")).toEqual({ lower: 3, upper: 3.2 });
+    expect(parseBracketLabel("1,500 or more")).toEqual({ lower: 1500, upper: null });
+    expect(parseBracketLabel("Yes")).toBeNull();
+  });
+
+  it("keeps leading minus signs without reading ranges as negatives", () => {
+    expect(parseBracketLabel("-0.1% to 0.0%")).toEqual({ lower: -0.1, upper: 0 });
+    expect(parseBracketLabel("-0.5% or below")).toEqual({ lower: null, upper: -0.5 });
+    expect(parseBracketLabel("-1.0% - -0.5%")).toEqual({ lower: -1, upper: -0.5 });
+    expect(parseBracketLabel("4-6 inches")).toEqual({ lower: 4, upper: 6 });
+  });
+});
+
+describe("bracketsFromStrikes", () => {
+  it("prefers the listed bounds and falls back to the subtitle", () => {
+    expect(
+      bracketsFromStrikes([
+        { market_ticker: "CPI-B1", strike_type: "between", floor_strike: 0.1, cap_strike: 0.2, price_yes: 40 },
+        { market_ticker: "CPI-T0", subtitle: "0.0% or below", strike_type: "less", cap_strike: 0, price_yes: 10 },
+        { market_ticker: "CPI-T3", subtitle: "0.3% or above", price_yes: 5 },
+        { market_ticker: "CPI-T4", subtitle: "0.4% or above", price_yes: 1 },
+        { market_ticker: "CPI-X", subtitle: "0.2% to 0.3%", price_yes: null },
+      ]),
+    ).toEqual([
+      { outcome_id: "CPI-B1", label: "CPI-B1", price: 0.4, lower: 0.1, upper: 0.2 },
+      { outcome_id: "CPI-T0", label: "0.0% or below", price: 0.1, lower: null, upper: 0 },
+      { outcome_id: "CPI-T3", label: "0.3% or above", price: 0.05, lower: 0.3, upper: null },
+      // Strike prices are always cents, so 1 is 1¢.
+      { outcome_id: "CPI-T4", label: "0.4% or above", price: 0.01, lower: 0.4, upper: null },
+    ]);
+  });
+});
+
+describe("buildLadderHedge", () => {
+  it("matches a loss that grows above a rainfall threshold", () => {
+    const result = buildLadderHedge({
+      market_id: "RAIN",
+      brackets: bracketsFromOutcomes(rainfallOutcomes),
+      loss_at: lossAboveThreshold(4, 1000),
+    });
+
+    expect(result.legs.map((leg) => leg.contracts)).toEqual([0, 0, 1000, 3000]);
+    expect(result.total_cost).toBeCloseTo(1000 * 0.2 + 3000 * 0.1, 6);
+    expect(result.max_payout).toBe(3000);
+    expect(result.residual_rms).toBeLessThan(result.loss_rms);
+    expect(result.residual_max).toBeCloseTo(950, 6);
+  });
+
+  it("scales down to the budget", () => {
+    const result = buildLadderHedge({
+      market_id: "RAIN",
+      brackets: bracketsFromOutcomes(rainfallOutcomes),
+      loss_at: lossAboveThreshold(4, 1000),
+      budget: 250,
+    });
+
+    expect(result.budget_scale).toBeCloseTo(0.5, 6);
+    expect(result.legs.map((leg) => leg.contracts)).toEqual([0, 0, 500, 1500]);
+    expect(result.total_cost).toBeLessThanOrEqual(250);
+  });
+
+  it("sizes open-ended brackets from their closest bounded neighbour", () => {
+    const result = buildLadderHedge({
+      market_id: "RAIN",
+      brackets: [
+        { outcome_id: "top", label: "10 or more", lower: 10, upper: null, price: 0.1 },
+        { outcome_id: "wide", label: "0 to 8", lower: 0, upper: 8, price: 0.5 },
+        { outcome_id: "narrow", label: "8 to 10", lower: 8, upper: 10, price: 0.3 },
+      ],
+      loss_at: lossAboveThreshold(10, 100),
+      samples_per_bracket: 2,
+    });
+
+    // Ladder order, and "10 or more" is sampled over 10-12 (the 8-10 width), not 10-18.
+    expect(result.legs.map((leg) => leg.outcome_id)).toEqual(["wide", "narrow", "top"]);
+    expect(result.legs[2].target_payout).toBeCloseTo(100, 6);
+  });
+
+  it("stacks cumulative strikes so each outcome pays its band's loss once", () => {
+    const result = buildLadderHedge({
+      market_id: "KXHURCTOTMAJ-27",
+      brackets: bracketsFromStrikes([
+        { market_ticker: "KXHURCTOTMAJ-27-T2", subtitle: "Above 2", strike_type: "greater", floor_strike: 2, price_yes: 60 },
+        { market_ticker: "KXHURCTOTMAJ-27-T3", subtitle: "Above 3", strike_type: "greater", floor_strike: 3, price_yes: 35 },
+        { market_ticker: "KXHURCTOTMAJ-27-T4", subtitle: "Above 4", strike_type: "greater", floor_strike: 4, price_yes: 15 },
+      ]),
+      loss_at: lossAboveThreshold(2, 1000),
+    });
+
+    expect(result.legs.map((leg) => leg.contracts)).toEqual([500, 1000, 1000]);
+    expect(result.total_cost).toBeCloseTo(500 * 0.6 + 1000 * 0.35 + 1000 * 0.15, 6);
+    // Every "Above" leg at or below the outcome pays.
+    const payoutAt = (value: number) =>
+      result.legs.reduce((sum, leg) => (value >= (leg.lower as number) ? sum + leg.contracts : sum), 0);
+    expect([1.5, 2.5, 3.5, 4.5].map(payoutAt)).toEqual([0, 500, 1500, 2500]);
+    for (const point of result.curve) {
+      expect(point.payoff).toBe(payoutAt(point.value));
+    }
+    expect(result.max_payout).toBe(2500);
+    expect(result.residual_max).toBeCloseTo(475, 6);
+  });
+
+  it("rejects ladders without priced brackets", () => {
+    expect(() =>
+      buildLadderHedge({
+        market_id: "EMPTY",
+        brackets: bracketsFromOutcomes([{ id: "yes", label: "Yes", price: 0.5 }]),
+        loss_at: () => 100,
+      }),
+    ).toThrow("empty_ladder");
+  });
+});
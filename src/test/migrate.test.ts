@@ -0,0 +1,111 @@
+import { afterEach, describe, it, expect } from "vitest";
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import {
+  getMigrationStatus,
+  loadMigrations,
+  migrateDatabase,
+  runMigrations,
+} from "../../backend/migrate.js";
+
+const tableNames = (db: InstanceType<typeof Database>) =>
+  (db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as Array<{ name: string }>)
+    .map((row) => row.name)
+    .sort();
+
+const migration = (version: number, name: string, up: (db: InstanceType<typeof Database>) => void) => ({
+  version,
+  name,
+  description: name,
+  up,
+});
+
+describe("runMigrations", () => {
+  it("applies every numbered migration once and records its version", async () => {
+    const db = new Database(":memory:");
+    const migrations = await loadMigrations();
+    const first = await migrateDatabase(db);
+
+    expect(first.current).toBe(migrations[migrations.length - 1].version);
+    expect(first.ran.map((item) => item.version)).toEqual(migrations.map((item) => item.version));
+    expect(first.pending).toEqual([]);
+    expect(tableNames(db)).toEqual(
+      expect.arrayContaining(["markets", "price_history", "event_markets", "sync_runs", "schema_version"]),
+    );
+
+    // 005 and 007 ALTER markets, which would throw if they ran again.
+    const second = await migrateDatabase(db);
+    expect(second.ran).toEqual([]);
+    expect(second.current).toBe(first.current);
+  });
+
+  it("rolls back a failing migration and keeps the ones before it", () => {
+    const db = new Database(":memory:");
+    const migrations = [
+      migration(1, "first", (handle) => handle.exec("CREATE TABLE first (id INTEGER)")),
+      migration(2, "broken", (handle) => {
+        handle.exec("CREATE TABLE broken (id INTEGER)");
+        throw new Error("boom");
+      }),
+    ];
+
+    expect(() => runMigrations(db, migrations)).toThrow("boom");
+    expect(tableNames(db)).toEqual(["first", "schema_version"]);
+    expect(getMigrationStatus(db, migrations)).toMatchObject({
+      current: 1,
+      pending: [{ version: 2, name: "broken" }],
+    });
+  });
+
+  it("checks pending migrations on a dry run without keeping them", () => {
+    const db = new Database(":memory:");
+    const migrations = [
+      migration(1, "first", (handle) => handle.exec("CREATE TABLE first (id INTEGER)")),
+      migration(2, "second", (handle) => handle.exec("ALTER TABLE first ADD COLUMN name TEXT")),
+    ];
+
+    const result = runMigrations(db, migrations, { dryRun: true });
+    expect(result.checked).toEqual([
+      { version: 1, name: "first" },
+      { version: 2, name: "second" },
+    ]);
+    expect(result.ran).toEqual([]);
+    expect(tableNames(db)).toEqual(["schema_version"]);
+    expect(getMigrationStatus(db, migrations).current).toBe(0);
+
+    const broken = [...migrations, migration(3, "broken", () => {
+      throw new Error("boom");
+    })];
+    expect(() => runMigrations(db, broken, { dryRun: true })).toThrow("boom");
+    expect(tableNames(db)).toEqual(["schema_version"]);
+  });
+});
+
+describe("migrate CLI", () => {
+  const dirs: string[] = [];
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const cli = (...args: string[]) =>
+    execFileSync(process.execPath, [path.resolve("backend/migrate.js"), ...args], {
+      encoding: "utf8",
+    });
+
+  it("reports status, dry-runs and migrates a database file", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hedgi-migrate-"));
+    dirs.push(dir);
+    const dbPath = path.join(dir, "markets.db");
+
+    expect(cli("status", "--db", dbPath)).toContain("Schema version: 0");
+    expect(cli("up", "--dry-run", "--db", dbPath)).toMatch(/Would apply \(checked and rolled back\): 1 markets/);
+    expect(cli("status", "--db", dbPath)).toContain("[ ] 001 markets");
+
+    expect(cli("up", "--db", dbPath)).toContain("Applied migration 1 markets");
+    expect(cli("up", "--db", dbPath)).toContain("Already up to date.");
+    expect(cli("status", "--db", dbPath)).toMatch(/\[x\] 001 markets/);
+  });
+});
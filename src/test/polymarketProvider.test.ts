@@ -0,0 +1,67 @@
+import { afterAll, beforeAll, describe, it, expect, vi } from "vitest";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { createPolymarketStandin } from "../../server/polymarket-standin.js";
+
+let server: Server;
+let service: typeof import("../../server/lib/polymarketService.js");
+
+beforeAll(async () => {
+  server = createPolymarketStandin();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  vi.stubEnv("POLYMARKET_BASE_URL", `http://127.0.0.1:${port}`);
+  vi.resetModules();
+  service = await import("../../server/lib/polymarketService.js");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe("polymarket provider", () => {
+  it("maps recorded Gamma events into markets", async () => {
+    const result = await service.fetchPolymarketMarketsForCategories(["weather"]);
+
+    expect(result.meta.tagsUsed).toEqual(["weather", "climate"]);
+    expect(result.meta.rateLimited).toBe(false);
+    expect(result.markets.map((market) => market.id)).toEqual([
+      "polymarket-major-hurricane-gulf-landfall-2026",
+      "polymarket-named-storms-2026",
+    ]);
+
+    const landfall = result.markets[0];
+    expect(landfall).toMatchObject({
+      source: "polymarket",
+      categoryId: "weather",
+      title: "Will a major hurricane make Gulf Coast landfall in 2026?",
+      closeTime: "2026-11-30T23:59:00.000Z",
+      liquidity: 182000.25,
+      volume: 640000,
+      url: "https://polymarket.com/event/atlantic-hurricane-season-2026",
+    });
+    expect(landfall.outcomes).toEqual([
+      { id: "yes", label: "Yes", price: 0.32 },
+      { id: "no", label: "No", price: 0.68 },
+    ]);
+  });
+
+  it("keeps multi-outcome labels and string-encoded numbers", async () => {
+    const result = await service.fetchPolymarketMarketsForCategories(["weather"]);
+    const storms = result.markets.find((market) => market.id === "polymarket-named-storms-2026");
+
+    expect(storms?.outcomes.map((outcome) => outcome.id)).toEqual(["under-15", "15-19", "20-or-more"]);
+    expect(storms?.outcomes[1].price).toBe(0.52);
+    expect(storms?.liquidity).toBe(54000);
+    expect(storms?.volume).toBe(98000);
+  });
+
+  it("accepts plain arrays and dedupes markets across tags", async () => {
+    const result = await service.fetchPolymarketMarketsForCategories(["finance", "real-estate"]);
+
+    expect(result.markets).toHaveLength(1);
+    expect(result.markets[0].outcomes[0]).toEqual({ id: "yes", label: "Yes", price: 0.18 });
+    expect(result.markets[0].categoryId).toBe("finance");
+  });
+});
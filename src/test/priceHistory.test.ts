@@ -0,0 +1,57 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { fetchPriceHistory, impliedProbability } from "@/lib/priceHistory";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("impliedProbability", () => {
+  it("prefers the YES price and falls back to the NO complement", () => {
+    expect(impliedProbability(0.3, 0.72)).toBe(0.3);
+    expect(impliedProbability(null, 0.75)).toBe(0.25);
+    expect(impliedProbability(null, null)).toBeNull();
+  });
+});
+
+describe("fetchPriceHistory", () => {
+  it("builds the query and normalizes cent prices", async () => {
+    const fetchMock = vi.fn(async () =>
+      new Response(
+        JSON.stringify({
+          ticker: "KXHURR-26",
+          market_ticker: "KXHURR-26-T3",
+          from: "2026-09-01T00:00:00.000Z",
+          to: "2026-10-01T00:00:00.000Z",
+          total: 4,
+          downsampled: false,
+          points: [
+            { captured_at: "2026-09-01T00:00:00.000Z", price_yes: 22, price_no: 79 },
+            { captured_at: "2026-09-15T00:00:00.000Z", price_yes: null, price_no: 70 },
+            { captured_at: "2026-10-01T00:00:00.000Z", price_yes: null, price_no: null },
+            { captured_at: "2026-10-02T00:00:00.000Z", price_yes: 1, price_no: 99 },
+          ],
+        }),
+        { status: 200 },
+      ),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const series = await fetchPriceHistory("KXHURR-26", { range: "30d", points: 50 });
+
+    expect(fetchMock).toHaveBeenCalledWith("/api/markets/KXHURR-26/history?range=30d&points=50");
+    expect(series?.market_ticker).toBe("KXHURR-26-T3");
+    expect(series?.points).toHaveLength(3);
+    expect(series?.points[0].probability).toBe(0.22);
+    expect(series?.points[1].probability).toBeCloseTo(0.3);
+    // Cents, not a guess from the magnitude: a 1¢ YES is 1%, not 100%.
+    expect(series?.points[2].probability).toBe(0.01);
+  });
+
+  it("returns null when there is no history and throws on server errors", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("{}", { status: 404 })));
+    await expect(fetchPriceHistory("NONE")).resolves.toBeNull();
+
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("{}", { status: 500 })));
+    await expect(fetchPriceHistory("NONE")).rejects.toThrow("history_api_500");
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import type { Market } from "@/types/hedgi";
+import {
+  createDefaultProviders,
+  fetchMarketsFromProviders,
+  type MarketProvider,
+} from "@/lib/providers/registry";
+
+const market = (id: string, source: Market["source"]): Market => ({
+  id,
+  source,
+  title: id,
+  categoryId: "weather",
+  closeTime: "2027-01-01T00:00:00Z",
+  outcomes: [],
+});
+
+const provider = (overrides: Partial<MarketProvider>): MarketProvider => ({
+  id: "kalshi",
+  mode: "real",
+  categories: "all",
+  capabilities: ["prices"],
+  fetchMarkets: async () => ({ markets: [], meta: { provider: "kalshi", fetchedMarkets: 0 } }),
+  ...overrides,
+});
+
+describe("fetchMarketsFromProviders", () => {
+  it("collects errors and timeouts per provider without dropping the rest", async () => {
+    const result = await fetchMarketsFromProviders(["weather"], {
+      timeoutMs: 20,
+      providers: [
+        provider({
+          id: "kalshi",
+          fetchMarkets: () => new Promise(() => {}),
+        }),
+        provider({
+          id: "polymarket",
+          fetchMarkets: async () => {
+            throw new Error("polymarket_api_502");
+          },
+        }),
+        provider({
+          id: "kalshi",
+          mode: "mock",
+          fetchMarkets: async () => ({
+            markets: [market("K-1", "kalshi")],
+            meta: { provider: "kalshi", fetchedMarkets: 1 },
+          }),
+        }),
+      ],
+    });
+
+    expect(result.markets.map((item) => item.id)).toEqual(["K-1"]);
+    expect(result.meta.map((meta) => meta.error ?? null)).toEqual([
+      "provider_timeout",
+      "polymarket_api_502",
+      null,
+    ]);
+    expect(result.meta[2].mode).toBe("mock");
+  });
+
+  it("falls back to the mock source and keeps the original error", async () => {
+    const result = await fetchMarketsFromProviders(["weather"], {
+      providers: [
+        provider({
+          id: "polymarket",
+          fetchMarkets: async () => {
+            throw new Error("polymarket_fetch_failed");
+          },
+          fallback: provider({
+            id: "polymarket",
+            mode: "mock",
+            fetchMarkets: async () => ({
+              markets: [market("P-1", "polymarket")],
+              meta: { provider: "polymarket", fetchedMarkets: 1 },
+            }),
+          }),
+        }),
+      ],
+    });
+
+    expect(result.markets).toHaveLength(1);
+    expect(result.meta[0]).toMatchObject({
+      provider: "polymarket",
+      mode: "real",
+      fallback: "mock",
+      fetchedMarkets: 1,
+      error: "polymarket_fetch_failed",
+    });
+  });
+
+  it("skips providers that cover none of the categories and disabled ones", async () => {
+    let called = 0;
+    const result = await fetchMarketsFromProviders(["weather"], {
+      providers: [
+        provider({
+          categories: ["finance"],
+          fetchMarkets: async () => {
+            called += 1;
+            return { markets: [], meta: { provider: "kalshi", fetchedMarkets: 0 } };
+          },
+        }),
+        provider({ id: "polymarket", enabled: false }),
+      ],
+    });
+
+    expect(called).toBe(0);
+    expect(result.meta).toHaveLength(1);
+    expect(result.meta[0].skipped).toBe(true);
+  });
+});
+
+describe("createDefaultProviders", () => {
+  it("picks real or mock mode from the environment", () => {
+    const providers = createDefaultProviders({ VITE_USE_REAL_POLYMARKET: "true" });
+
+    expect(providers.map((item) => [item.id, item.mode])).toEqual([
+      ["kalshi", "mock"],
+      ["polymarket", "real"],
+    ]);
+    expect(providers[1].fallback?.mode).toBe("mock");
+  });
+});
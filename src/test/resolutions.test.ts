@@ -0,0 +1,61 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { fetchMarketResolutions, fetchResolutions, hedgePaidOut } from "@/lib/resolutions";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("fetchResolutions", () => {
+  it("builds the query and drops malformed rows", async () => {
+    const fetchMock = vi.fn(async () =>
+      new Response(
+        JSON.stringify({
+          resolutions: [
+            {
+              market_ticker: "KXHIGHNY-26OCT18-B72.5",
+              event_ticker: "KXHIGHNY-26OCT18",
+              subtitle: "72° to 73°",
+              status: "settled",
+              result: "yes",
+              bracket: "72° to 73°",
+              settlement_value: 1,
+              settled_at: "2026-10-18T20:00:00.000Z",
+            },
+            { event_ticker: "missing-market-ticker" },
+          ],
+        }),
+        { status: 200 },
+      ),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const resolutions = await fetchResolutions({ event: "KXHIGHNY-26OCT18", limit: 10 });
+
+    expect(fetchMock).toHaveBeenCalledWith("/api/resolutions?event=KXHIGHNY-26OCT18&limit=10");
+    expect(resolutions).toHaveLength(1);
+    expect(resolutions[0]).toMatchObject({ result: "yes", bracket: "72° to 73°", title: null });
+  });
+
+  it("treats an unknown ticker as no resolutions", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("{}", { status: 404 })));
+    await expect(fetchMarketResolutions("NOPE")).resolves.toEqual([]);
+  });
+});
+
+describe("hedgePaidOut", () => {
+  it("compares the result with the hedge side", () => {
+    const base = {
+      market_ticker: "M",
+      event_ticker: null,
+      title: null,
+      subtitle: null,
+      status: "settled",
+      bracket: null,
+      settlement_value: 0,
+      settled_at: "2026-10-18T20:00:00.000Z",
+    };
+    expect(hedgePaidOut({ ...base, result: "no" }, "no")).toBe(true);
+    expect(hedgePaidOut({ ...base, result: "no" }, "yes")).toBe(false);
+    expect(hedgePaidOut({ ...base, result: null, status: "closed" }, "yes")).toBeNull();
+  });
+});
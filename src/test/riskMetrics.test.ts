@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { computeHedgeQuote } from "@/lib/hedgeCalculator";
+import {
+  compareQuoteRisk,
+  compareSimulationRisk,
+  riskMetricsFromSamples,
+  riskMetricsFromScenarios,
+} from "@/lib/hedge/riskMetrics";
+import { simulateHedgePnl } from "@/lib/hedge/simulation";
+
+describe("riskMetricsFromScenarios", () => {
+  it("splits the boundary atom when computing CVaR", () => {
+    const metrics = riskMetricsFromScenarios(
+      [
+        { value: -1000, probability: 0.02 },
+        { value: -200, probability: 0.08 },
+        { value: 500, probability: 0.9 },
+      ],
+      0.95,
+    );
+
+    expect(metrics.value_at_risk).toBe(200);
+    // Worst 5%: 2% at -1000 and 3% at -200.
+    expect(metrics.conditional_value_at_risk).toBeCloseTo((0.02 * 1000 + 0.03 * 200) / 0.05, 6);
+    expect(metrics.probability_of_loss).toBeCloseTo(0.1, 6);
+    expect(metrics.worst_case).toBe(-1000);
+    expect(metrics.expected).toBeCloseTo(-20 - 16 + 450, 6);
+  });
+
+  it("agrees with the equivalent sample set", () => {
+    const fromSamples = riskMetricsFromSamples([
+      ...Array.from({ length: 10 }, () => -100),
+      ...Array.from({ length: 90 }, () => 50),
+    ]);
+    const fromScenarios = riskMetricsFromScenarios([
+      { value: -100, probability: 0.1 },
+      { value: 50, probability: 0.9 },
+    ]);
+
+    expect(fromSamples.value_at_risk).toBeCloseTo(fromScenarios.value_at_risk, 6);
+    expect(fromSamples.conditional_value_at_risk).toBeCloseTo(fromScenarios.conditional_value_at_risk, 6);
+    expect(fromSamples.probability_of_loss).toBeCloseTo(fromScenarios.probability_of_loss, 6);
+  });
+
+  it("rejects bad input", () => {
+    expect(() => riskMetricsFromScenarios([])).toThrow("empty_scenarios");
+    expect(() => riskMetricsFromScenarios([{ value: 1, probability: 1 }], 1)).toThrow("invalid_confidence");
+  });
+});
+
+describe("compareQuoteRisk", () => {
+  const quote = computeHedgeQuote({
+    market_id: "RISK",
+    price_yes: 0.3,
+    expected_profit: 1000,
+    loss_if_event: 1500,
+  });
+
+  it("reports the downside reduction from a full hedge", () => {
+    const result = compareQuoteRisk(quote, 1000, 1500);
+
+    expect(result.unhedged.value_at_risk).toBe(500);
+    expect(result.unhedged.probability_of_loss).toBeCloseTo(0.3, 6);
+    expect(result.unhedged.worst_case).toBe(-500);
+    expect(result.hedged.worst_case).toBeCloseTo(
+      Math.min(quote.profit_if_event, quote.profit_if_no_event),
+      6,
+    );
+    expect(result.hedged.probability_of_loss).toBe(0);
+    expect(result.delta.value_at_risk).toBeLessThan(0);
+    expect(result.delta.worst_case).toBeGreaterThan(0);
+    expect(result.delta.probability_of_loss).toBeCloseTo(-0.3, 6);
+  });
+
+  it("summarizes simulated distributions the same way", () => {
+    const simulation = simulateHedgePnl({
+      quote,
+      expected_profit: 1000,
+      loss_if_event: 1500,
+      correlation: 1,
+      trials: 4000,
+      seed: 11,
+    });
+    const result = compareSimulationRisk(simulation);
+
+    expect(result.unhedged.worst_case).toBeCloseTo(-500, 6);
+    // Correlation is clamped just below 1, so a handful of trials still miss.
+    expect(result.hedged.probability_of_loss).toBeLessThan(0.01);
+    expect(result.delta.conditional_value_at_risk).toBeLessThan(0);
+  });
+});
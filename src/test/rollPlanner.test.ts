@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { planHedgeRoll, seasonWindow } from "@/lib/hedge/rollPlanner";
+
+const now = new Date("2026-10-01T00:00:00Z");
+const winter = { startMonth: 11, endMonth: 2 };
+
+describe("seasonWindow", () => {
+  it("wraps the year end and picks the upcoming season", () => {
+    const window = seasonWindow(winter, now);
+
+    expect(new Date(window.start).toISOString()).toBe("2026-11-01T00:00:00.000Z");
+    expect(new Date(window.end).toISOString()).toBe("2027-03-01T00:00:00.000Z");
+  });
+
+  it("starts from today when the season is under way", () => {
+    const window = seasonWindow(winter, new Date("2027-01-10T00:00:00Z"));
+
+    expect(new Date(window.start).toISOString()).toBe("2027-01-10T00:00:00.000Z");
+    expect(new Date(window.end).toISOString()).toBe("2027-03-01T00:00:00.000Z");
+  });
+});
+
+describe("planHedgeRoll", () => {
+  const base = {
+    season: winter,
+    expected_profit: 12000,
+    loss_if_event: 6000,
+    now,
+  };
+
+  it("rolls into a later market and reports the gap between them", () => {
+    const plan = planHedgeRoll({
+      ...base,
+      candidates: [
+        { market_id: "DEC", close_time: "2026-12-31T00:00:00Z", price_yes: 0.2 },
+        {
+          market_id: "Q1",
+          open_time: "2027-01-15T00:00:00Z",
+          close_time: "2027-03-31T00:00:00Z",
+          price_yes: 0.25,
+        },
+        { market_id: "NOV", close_time: "2026-11-30T00:00:00Z", price_yes: 0.1 },
+      ],
+    });
+
+    expect(plan.legs.map((leg) => leg.market_id)).toEqual(["DEC", "Q1"]);
+    expect(plan.gaps).toHaveLength(1);
+    expect(plan.gaps[0].days).toBe(15);
+    expect(plan.fully_covered).toBe(false);
+    expect(plan.months.map((month) => month.status)).toEqual(["covered", "partial", "partial", "covered"]);
+    expect(plan.months[2].market_ids).toEqual(["Q1"]);
+    expect(plan.total_cost).toBeCloseTo(
+      plan.legs.reduce((sum, leg) => sum + leg.quote.total_cost, 0),
+      6,
+    );
+    expect(plan.legs.reduce((sum, leg) => sum + leg.loss_share, 0)).toBeLessThan(6000);
+  });
+
+  it("uses one market when it outlives the season", () => {
+    const plan = planHedgeRoll({
+      ...base,
+      candidates: [{ market_id: "LONG", close_time: "2027-06-01T00:00:00Z", price_yes: 0.3 }],
+    });
+
+    expect(plan.fully_covered).toBe(true);
+    expect(plan.coverage).toBeCloseTo(1, 6);
+    expect(plan.legs[0].loss_share).toBeCloseTo(6000, 6);
+    expect(plan.legs[0].quote.contracts_to_buy).toBe(6000);
+  });
+
+  it("marks every month as a gap without candidates", () => {
+    const plan = planHedgeRoll({ ...base, candidates: [] });
+
+    expect(plan.months.every((month) => month.status === "gap")).toBe(true);
+    expect(plan.total_cost).toBe(0);
+    expect(() => planHedgeRoll({ ...base, season: null, candidates: [] })).toThrow("invalid_season");
+  });
+});
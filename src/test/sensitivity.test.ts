@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { computeHedgeSensitivity } from "@/lib/hedge/sensitivity";
+
+const base = {
+  market_id: "SENS",
+  price_yes: 0.3,
+  expected_profit: 1000,
+  loss_if_event: 500,
+};
+
+describe("computeHedgeSensitivity", () => {
+  it("sweeps each input and ranks by swing", () => {
+    const result = computeHedgeSensitivity({ base, steps: 3 });
+
+    expect(result.base_outcome).toBeCloseTo(850, 6);
+    expect(result.series.map((entry) => entry.rank)).toEqual([1, 2, 3, 4]);
+    for (let i = 1; i < result.series.length; i += 1) {
+      expect(result.series[i - 1].swing).toBeGreaterThanOrEqual(result.series[i].swing);
+    }
+
+    const price = result.series.find((entry) => entry.variable === "price_yes");
+    expect(price?.points.map((point) => point.value)).toEqual([0.25, 0.3, 0.35]);
+    // 500 contracts: every cent on the price is $5 of event-side profit.
+    expect(price?.low_outcome).toBeCloseTo(875, 6);
+    expect(price?.high_outcome).toBeCloseTo(825, 6);
+    expect(price?.swing).toBeCloseTo(50, 6);
+  });
+
+  it("honours custom ranges and metrics", () => {
+    const result = computeHedgeSensitivity({
+      base,
+      metric: "total_cost",
+      steps: 2,
+      ranges: { loss_if_event: { low: 300, high: 600 } },
+    });
+    const loss = result.series.find((entry) => entry.variable === "loss_if_event");
+
+    expect(result.metric).toBe("total_cost");
+    expect(loss?.low_outcome).toBeCloseTo(90, 6);
+    expect(loss?.high_outcome).toBeCloseTo(180, 6);
+    expect(loss?.rank).toBe(1);
+  });
+
+  it("sweeps the budget around the uncapped cost", () => {
+    const result = computeHedgeSensitivity({ base, steps: 3 });
+    const budget = result.series.find((entry) => entry.variable === "max_hedge_cost");
+
+    expect(budget?.base_value).toBeCloseTo(150, 6);
+    expect(budget?.points[0].quote?.contracts_to_buy).toBe(250);
+    expect(budget?.points[2].quote?.contracts_to_buy).toBe(500);
+  });
+});
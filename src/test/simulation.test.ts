@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { computeHedgeQuote } from "@/lib/hedgeCalculator";
+import { inverseNormalCdf, simulateHedgePnl } from "@/lib/hedge/simulation";
+
+const quote = computeHedgeQuote({
+  market_id: "SIM",
+  price_yes: 0.3,
+  expected_profit: 1000,
+  loss_if_event: 500,
+});
+
+describe("simulateHedgePnl", () => {
+  it("is deterministic for a given seed", () => {
+    const a = simulateHedgePnl({ quote, expected_profit: 1000, loss_if_event: 500, trials: 2000, seed: 42 });
+    const b = simulateHedgePnl({ quote, expected_profit: 1000, loss_if_event: 500, trials: 2000, seed: 42 });
+    const c = simulateHedgePnl({ quote, expected_profit: 1000, loss_if_event: 500, trials: 2000, seed: 7 });
+
+    expect(a.hedged.percentiles).toEqual(b.hedged.percentiles);
+    expect(a.hedged.mean).toBe(b.hedged.mean);
+    expect(c.hedged.mean).not.toBe(a.hedged.mean);
+  });
+
+  it("locks in the hedged outcome when the proxy is perfect", () => {
+    const result = simulateHedgePnl({
+      quote,
+      expected_profit: 1000,
+      loss_if_event: 500,
+      correlation: 1,
+      trials: 5000,
+      seed: 3,
+    });
+
+    expect(result.hedged.percentiles.p1).toBeCloseTo(850, 0);
+    expect(result.hedged.percentiles.p99).toBeCloseTo(850, 0);
+    expect(result.unhedged.percentiles.p1).toBeCloseTo(500, 6);
+    expect(result.unhedged.percentiles.p99).toBeCloseTo(1000, 6);
+  });
+
+  it("leaves basis risk when the proxy is weak", () => {
+    const result = simulateHedgePnl({
+      quote,
+      expected_profit: 1000,
+      loss_if_event: 500,
+      proxy_strength: "weak",
+      trials: 5000,
+      seed: 11,
+    });
+
+    expect(result.correlation).toBeCloseTo(0.2, 6);
+    expect(result.hedged.min).toBeCloseTo(350, 6);
+    expect(result.hedged.max).toBeCloseTo(1350, 6);
+    expect(result.joint_probability).toBeLessThan(0.3);
+    expect(result.loss_probability).toBeCloseTo(0.3, 6);
+  });
+
+  it("draws loss severity from a distribution", () => {
+    const result = simulateHedgePnl({
+      quote,
+      expected_profit: 1000,
+      loss_if_event: 500,
+      severity: { kind: "uniform", min: 200, max: 800 },
+      loss_probability: 1,
+      trials: 4000,
+      seed: 5,
+    });
+
+    expect(result.unhedged.min).toBeGreaterThanOrEqual(200);
+    expect(result.unhedged.max).toBeLessThanOrEqual(800);
+    expect(result.unhedged.mean).toBeCloseTo(500, -1);
+  });
+});
+
+describe("inverseNormalCdf", () => {
+  it("matches known quantiles", () => {
+    expect(inverseNormalCdf(0.5)).toBeCloseTo(0, 6);
+    expect(inverseNormalCdf(0.975)).toBeCloseTo(1.959964, 4);
+    expect(inverseNormalCdf(0.01)).toBeCloseTo(-2.326348, 4);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { sizeHedge } from "@/lib/hedge/sizing";
+import { computeHedgeQuote, solveHedgeForBudget } from "@/lib/hedgeCalculator";
+
+const base = {
+  market_id: "SIZE",
+  price_yes: 0.3,
+  expected_profit: 1000,
+  loss_if_event: 1500,
+};
+
+describe("sizeHedge", () => {
+  it("buys full coverage when the price is fair", () => {
+    const crra = sizeHedge({ ...base, risk_aversion: 2 });
+    const meanVariance = sizeHedge({ ...base, risk_aversion: 2, utility_model: "mean_variance" });
+
+    expect(crra.optimal_coverage).toBe(1);
+    expect(crra.gap_from_full).toBe(0);
+    expect(crra.explanation).toContain("Full coverage");
+    expect(meanVariance.optimal_coverage).toBe(1);
+    expect(crra.utility).toBeGreaterThan(crra.unhedged_utility);
+  });
+
+  it("hedges less when the owner thinks the event is less likely than the market", () => {
+    const result = sizeHedge({ ...base, risk_aversion: 2, subjective_probability: 0.1 });
+
+    expect(result.optimal_coverage).toBeGreaterThan(0);
+    expect(result.optimal_coverage).toBeLessThan(1);
+    expect(result.market_probability).toBeCloseTo(0.3, 6);
+    expect(result.utility).toBeGreaterThanOrEqual(result.full_coverage_utility);
+    expect(result.explanation).toContain("market prices it at 30%");
+  });
+
+  it("hedges more as risk aversion rises", () => {
+    const mild = sizeHedge({ ...base, risk_aversion: 1, subjective_probability: 0.15 });
+    const strong = sizeHedge({ ...base, risk_aversion: 6, subjective_probability: 0.15 });
+
+    expect(strong.optimal_coverage).toBeGreaterThan(mild.optimal_coverage);
+  });
+
+  it("skips overpriced protection when risk neutral", () => {
+    const result = sizeHedge({ ...base, risk_aversion: 0, subjective_probability: 0.1 });
+
+    expect(result.optimal_coverage).toBe(0);
+    expect(result.contracts_to_buy).toBe(0);
+    expect(result.explanation).toContain("zero risk aversion");
+  });
+
+  it("matches the budget solver under mean-variance utility", () => {
+    const order_book = [
+      { price: 0.3, size: 500 },
+      { price: 0.4, size: 2000 },
+    ];
+    const input = { ...base, order_book, risk_aversion: 1 };
+    const sized = sizeHedge({ ...input, utility_model: "mean_variance" });
+    const solved = solveHedgeForBudget({
+      ...input,
+      budget: computeHedgeQuote({ ...input, hedge_coverage: 1 }).total_cost,
+    });
+
+    expect(sized.contracts_to_buy).toBe(solved.contracts_to_buy);
+    expect(sized.utility).toBeCloseTo(solved.utility, 9);
+  });
+
+  it("rejects bad settings", () => {
+    expect(() => sizeHedge({ ...base, risk_aversion: -1 })).toThrow("invalid_risk_aversion");
+    expect(() => sizeHedge({ ...base, risk_aversion: 2, subjective_probability: 1.5 })).toThrow(
+      "invalid_subjective_probability",
+    );
+  });
+});
@@ -0,0 +1,202 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { isIlliquid, quoteSpread, runHedgiSnapshot } from "@/lib/pipeline/snapshotPipeline";
+import { resetProviders, type MarketProvider } from "@/lib/providers/registry";
+import type { Market } from "@/types/hedgi";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  resetProviders();
+});
+
+describe("runHedgiSnapshot", () => {
+  it("carries each event's strike ladder onto the scored market", async () => {
+    const strikes = [4, 4.25].map((strike, index) => ({
+      market_ticker: `FED-26DEC-T${strike}`,
+      subtitle: `Above ${strike}%`,
+      strike_type: "greater",
+      floor_strike: strike,
+      cap_strike: null,
+      price_yes: 30 + index * 10,
+      price_no: 72 - index * 10,
+      close_time: "2026-12-16T19:00:00.000Z",
+    }));
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) =>
+        url === "/api/score-markets"
+          ? new Response(
+              JSON.stringify({
+                keywords: ["interest rates"],
+                markets: [
+                  {
+                    platform: "kalshi",
+                    ticker: "FED-26DEC",
+                    title: "Fed rate after December",
+                    market_ticker: "FED-26DEC-T4",
+                    price_yes: 30,
+                    price_no: 72,
+                    close_time: "2026-12-16T19:00:00.000Z",
+                    strikes: [...strikes, { subtitle: "missing ticker" }],
+                  },
+                ],
+                scored_markets: [
+                  {
+                    platform: "kalshi",
+                    ticker: "FED-26DEC",
+                    title: "Fed rate after December",
+                    relevance_score: 8,
+                    hedging_utility_score: 8,
+                    timing_score: 8,
+                    reasoning: "Rate exposure",
+                  },
+                ],
+              }),
+              { status: 200 },
+            )
+          : new Response(JSON.stringify({ markets: [] }), { status: 200 }),
+      ),
+    );
+
+    const snapshot = await runHedgiSnapshot("We finance equipment on floating-rate loans.");
+
+    expect(snapshot.matches[0].strikes).toHaveLength(2);
+    expect(snapshot.scoredMarkets[0].market_ticker).toBe("FED-26DEC-T4");
+    expect(snapshot.scoredMarkets[0].strikes?.map((strike) => strike.subtitle)).toEqual([
+      "Above 4%",
+      "Above 4.25%",
+    ]);
+  });
+
+  it("keeps quote fields and drops illiquid markets", async () => {
+    const market = (ticker: string, quote: Record<string, number>) => ({
+      platform: "kalshi",
+      ticker,
+      title: `Rain in ${ticker}`,
+      market_ticker: `${ticker}-T1`,
+      price_yes: 40,
+      price_no: 62,
+      ...quote,
+    });
+    const scored = (ticker: string) => ({
+      platform: "kalshi",
+      ticker,
+      title: `Rain in ${ticker}`,
+      relevance_score: 7,
+      hedging_utility_score: 7,
+      timing_score: 7,
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) =>
+        url === "/api/score-markets"
+          ? new Response(
+              JSON.stringify({
+                keywords: ["rain"],
+                markets: [
+                  market("TIGHT", { yes_bid: 39, yes_ask: 41, volume_24h: 1200, open_interest: 5000 }),
+                  market("WIDE", { yes_bid: 5, yes_ask: 60, volume_24h: 3, open_interest: 40 }),
+                  market("DEAD", { volume_24h: 0, open_interest: 0 }),
+                ],
+                scored_markets: [scored("TIGHT"), scored("WIDE"), scored("DEAD")],
+              }),
+              { status: 200 },
+            )
+          : new Response(JSON.stringify({ markets: [] }), { status: 200 }),
+      ),
+    );
+
+    const snapshot = await runHedgiSnapshot("We run an outdoor venue.");
+
+    expect(snapshot.scoredMarkets.map((item) => item.ticker)).toEqual(["TIGHT"]);
+    expect(snapshot.scoredMarkets[0]).toMatchObject({ yes_bid: 39, yes_ask: 41, volume_24h: 1200 });
+    expect(quoteSpread(snapshot.scoredMarkets[0])).toBeCloseTo(0.02);
+    expect(snapshot.illiquidMarkets.map((item) => item.ticker).sort()).toEqual(["DEAD", "WIDE"]);
+  });
+
+  it("only quotes other venues from real providers", async () => {
+    const FED_TITLE = "Will the Fed funds rate be above 4.25% after the December 2026 meeting?";
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        new Response(
+          JSON.stringify({
+            keywords: ["interest rates"],
+            markets: [
+              {
+                platform: "kalshi",
+                ticker: "FED-26DEC",
+                title: FED_TITLE,
+                market_ticker: "FED-26DEC-T4.25",
+                price_yes: 38,
+                price_no: 63,
+                close_time: "2026-12-16T19:00:00Z",
+              },
+            ],
+            scored_markets: [
+              {
+                platform: "kalshi",
+                ticker: "FED-26DEC",
+                title: FED_TITLE,
+                relevance_score: 8,
+                hedging_utility_score: 8,
+                timing_score: 8,
+              },
+            ],
+          }),
+          { status: 200 },
+        ),
+      ),
+    );
+    const polyFed: Market = {
+      id: "polymarket-fed-above-425-dec-2026",
+      source: "polymarket",
+      title: "Fed rate above 4.25% after December 2026 meeting?",
+      categoryId: "finance",
+      closeTime: "2026-12-17T00:00:00Z",
+      outcomes: [
+        { id: "yes", label: "Yes", price: 0.34 },
+        { id: "no", label: "No", price: 0.66 },
+      ],
+    };
+    const provider = (mode: MarketProvider["mode"]): MarketProvider => ({
+      id: "polymarket",
+      mode,
+      categories: "all",
+      capabilities: ["prices"],
+      fetchMarkets: vi.fn(async () => ({
+        markets: [polyFed],
+        meta: { provider: "polymarket" as const, fetchedMarkets: 1 },
+      })),
+    });
+
+    const mock = provider("mock");
+    resetProviders([mock]);
+    const mockOnly = await runHedgiSnapshot("We finance equipment on floating-rate loans.");
+    expect(mock.fetchMarkets).not.toHaveBeenCalled();
+    expect(mockOnly.scoredMarkets[0].venues).toBeUndefined();
+
+    // A failing real provider must not fall back to its mock listings either.
+    const failing = { ...provider("real"), fetchMarkets: vi.fn().mockRejectedValue(new Error("down")) };
+    resetProviders([{ ...failing, fallback: provider("mock") }]);
+    const fellBack = await runHedgiSnapshot("We finance equipment on floating-rate loans.");
+    expect(fellBack.scoredMarkets[0].venues).toBeUndefined();
+
+    resetProviders([provider("real")]);
+    const real = await runHedgiSnapshot("We finance equipment on floating-rate loans.");
+    expect(real.scoredMarkets[0].venues?.map((listing) => listing.id)).toEqual([polyFed.id]);
+  });
+});
+
+describe("isIlliquid", () => {
+  it("keeps markets it has no quote data for", () => {
+    expect(isIlliquid({})).toBe(false);
+    expect(isIlliquid({ yes_bid: 40, yes_ask: 42 })).toBe(false);
+    expect(isIlliquid({ yes_bid: 0, yes_ask: 99 })).toBe(true);
+  });
+
+  it("reads a 1¢ side as one cent", () => {
+    expect(quoteSpread({ yes_bid: 1, yes_ask: 50 })).toBeCloseTo(0.49);
+    expect(isIlliquid({ yes_bid: 1, yes_ask: 50 })).toBe(true);
+    expect(isIlliquid({ yes_bid: 1, yes_ask: 2 })).toBe(false);
+  });
+});
@@ -0,0 +1,179 @@
+import { afterAll, beforeAll, beforeEach, describe, it, expect, vi } from "vitest";
+import Database from "better-sqlite3";
+import { migrateDatabase } from "../../backend/migrate.js";
+import { getSyncRun, listSyncRuns } from "../../backend/syncRuns.js";
+
+type FeedMarket = {
+  ticker: string;
+  title: string;
+  yes_bid: number;
+  close_time: string;
+  open_time?: string;
+};
+
+const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+
+const CLOSE_TIME = inDays(30);
+
+const event = (ticker: string, yesBid: number, closeTime = CLOSE_TIME): FeedMarket => ({
+  ticker,
+  title: `${ticker} title`,
+  yes_bid: yesBid,
+  close_time: closeTime,
+});
+
+let feed: FeedMarket[] = [];
+let failEconomics = false;
+let sync: typeof import("../../backend/sync.js");
+let db: InstanceType<typeof Database>;
+
+// Stands in for Kalshi: Economics serves `feed`, the other categories are empty.
+const stubKalshi = vi.fn(async (url: string) => {
+  const category = new URL(url).searchParams.get("category");
+  if (category === "Economics" && failEconomics) return new Response("{}", { status: 500 });
+  const events =
+    category === "Economics"
+      ? feed.map((market) => ({
+          event_ticker: market.ticker,
+          title: market.title,
+          category: "Economics",
+          markets: [{ ...market, ticker: `${market.ticker}-T1`, status: "active" }],
+        }))
+      : [];
+  return new Response(JSON.stringify({ events, cursor: "" }), { status: 200 });
+});
+
+beforeAll(async () => {
+  vi.stubEnv("KALSHI_HTTP_MODE", "live");
+  vi.stubEnv("KALSHI_RPS", "1000");
+  vi.stubGlobal("fetch", stubKalshi);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  sync = await import("../../backend/sync.js");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+beforeEach(async () => {
+  db = new Database(":memory:");
+  await migrateDatabase(db);
+  failEconomics = false;
+});
+
+const marketRow = (ticker: string) =>
+  db.prepare("SELECT * FROM markets WHERE ticker = ?").get(ticker) as Record<string, unknown>;
+
+describe("syncKalshiMarkets", () => {
+  it("diffs each run against the table and flags markets that left the feed", async () => {
+    feed = [event("KEEP", 40), event("MOVE", 20), event("CLOSE", 50), event("GONE", 60)];
+    const first = await sync.syncKalshiMarkets(db);
+    expect(first).toMatchObject({ added: 4, changed: 0, unchanged: 0, removed: 0, error: null });
+
+    db.prepare("UPDATE markets SET last_updated = '2000-01-01' WHERE ticker IN ('KEEP', 'MOVE')").run();
+    db.prepare("UPDATE markets SET close_time = ? WHERE ticker = 'CLOSE'").run(inDays(-1));
+    feed = [event("KEEP", 40), event("MOVE", 25), event("NEW", 70)];
+    const second = await sync.syncKalshiMarkets(db);
+
+    expect(second).toMatchObject({ added: 1, changed: 1, unchanged: 1, removed: 2, error: null });
+    // Unchanged rows only get last_seen_at; changed rows are rewritten.
+    expect(marketRow("KEEP")).toMatchObject({ last_updated: "2000-01-01", stale: 0 });
+    expect(marketRow("MOVE").last_updated).not.toBe("2000-01-01");
+    expect(marketRow("MOVE").price_yes).toBe(25);
+    expect(marketRow("CLOSE")).toMatchObject({ stale: 1, status: "closed" });
+    expect(marketRow("GONE")).toMatchObject({ stale: 1, status: "removed" });
+
+    const run = getSyncRun(db, second.runId);
+    expect(run.status).toBe("ok");
+    expect(run.diff.added).toEqual([{ ticker: "NEW", title: "NEW title" }]);
+    expect(run.diff.changed).toEqual([
+      {
+        ticker: "MOVE",
+        title: "MOVE title",
+        changes: [{ field: "price_yes", before: 20, after: 25 }],
+      },
+    ]);
+    expect(run.diff.removed).toEqual([
+      { ticker: "CLOSE", title: "CLOSE title", status: "closed" },
+      { ticker: "GONE", title: "GONE title", status: "removed" },
+    ]);
+  });
+
+  it("records markets dropped for closing within two days as closing, not removed", async () => {
+    feed = [event("SOON", 40), event("GONE", 60)];
+    await sync.syncKalshiMarkets(db);
+
+    // SOON is still listed but now closes tomorrow, so the keep filter drops it.
+    feed = [event("SOON", 40, inDays(1))];
+    const second = await sync.syncKalshiMarkets(db);
+
+    expect(second).toMatchObject({ removed: 2, error: null });
+    expect(marketRow("SOON")).toMatchObject({ stale: 1, status: "closing" });
+    expect(getSyncRun(db, second.runId).diff.removed).toEqual([
+      { ticker: "SOON", title: "SOON title", status: "closing" },
+      { ticker: "GONE", title: "GONE title", status: "removed" },
+    ]);
+  });
+
+  it("clears the stale flag when a market comes back", async () => {
+    feed = [event("BACK", 40), event("OTHER", 30)];
+    await sync.syncKalshiMarkets(db);
+    feed = [event("OTHER", 30)];
+    await sync.syncKalshiMarkets(db);
+    expect(marketRow("BACK").stale).toBe(1);
+
+    feed = [event("BACK", 40), event("OTHER", 30)];
+    const result = await sync.syncKalshiMarkets(db);
+    expect(result).toMatchObject({ changed: 1, unchanged: 1 });
+    expect(marketRow("BACK").stale).toBe(0);
+  });
+
+  it("does not mark anything stale from a failed run", async () => {
+    feed = [event("KEEP", 40)];
+    await sync.syncKalshiMarkets(db);
+
+    failEconomics = true;
+    const failed = await sync.syncKalshiMarkets(db);
+    expect(failed).toMatchObject({ removed: 0, error: "HTTP 500" });
+    expect(marketRow("KEEP").stale).toBe(0);
+    expect(getSyncRun(db, failed.runId)).toMatchObject({ status: "failed", error: "HTTP 500" });
+  });
+});
+
+describe("market open times", () => {
+  it("stores when each market and strike opens and diffs it like the close time", async () => {
+    const opens = "2026-01-01T00:00:00.000Z";
+    feed = [event("OPEN", 40)];
+    await sync.syncKalshiMarkets(db);
+    expect(marketRow("OPEN").open_time).toBeNull();
+
+    feed = [{ ...event("OPEN", 40), open_time: opens }];
+    const result = await sync.syncKalshiMarkets(db);
+    expect(result).toMatchObject({ changed: 1 });
+    expect(marketRow("OPEN").open_time).toBe(opens);
+    expect(
+      db.prepare("SELECT open_time FROM event_markets WHERE market_ticker = 'OPEN-T1'").get(),
+    ).toEqual({ open_time: opens });
+  });
+});
+
+describe("sync run lookups", () => {
+  it("lists newest first without the diff and returns one run with it", async () => {
+    feed = [event("KEEP", 40)];
+    await sync.syncKalshiMarkets(db);
+    await sync.syncKalshiMarkets(db);
+
+    const runs = listSyncRuns(db, "1");
+    expect(runs).toHaveLength(1);
+    expect(runs[0]).toMatchObject({ id: 2, added: 0, unchanged: 1 });
+    expect(runs[0]).not.toHaveProperty("diff_json");
+    expect(listSyncRuns(db, "not-a-number")).toHaveLength(2);
+    expect(listSyncRuns(db, 0)).toHaveLength(1);
+
+    expect(getSyncRun(db, 1).diff.added).toEqual([{ ticker: "KEEP", title: "KEEP title" }]);
+    expect(getSyncRun(db, 99)).toBeNull();
+  });
+});
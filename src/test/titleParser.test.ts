@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { applyStrikeBounds, parseMarketTitle, strikeGap } from "@/lib/pipeline/titleParser";
+import { inferHedgeSide } from "@/lib/hedgeCalculator";
+
+describe("parseMarketTitle", () => {
+  it("reads metric, comparator, threshold, unit and period", () => {
+    expect(parseMarketTitle("Will WTI crude average above $85 in Q3 2026?")).toEqual({
+      parsed: true,
+      metric: "WTI crude average",
+      comparator: "above",
+      threshold: 85,
+      thresholdHigh: null,
+      unit: "USD",
+      period: "Q3 2026",
+      location: null,
+    });
+  });
+
+  it("scales shorthand amounts and picks up the location", () => {
+    const strike = parseMarketTitle("Will Florida orange yield fall below 60M boxes in 2026?");
+    expect(strike).toMatchObject({
+      parsed: true,
+      metric: "Florida orange yield",
+      comparator: "below",
+      threshold: 60_000_000,
+      unit: "boxes",
+      period: "2026",
+      location: "Florida",
+    });
+  });
+
+  it("handles percentages, thousands separators and ranges", () => {
+    expect(
+      parseMarketTitle("Will the Fed funds rate be above 4.25% after the December 2026 meeting?"),
+    ).toMatchObject({ comparator: "above", threshold: 4.25, unit: "%", period: "December 2026" });
+    expect(parseMarketTitle("Will the Baltic Dry Index exceed 2,000 in 2026?")).toMatchObject({
+      metric: "Baltic Dry Index",
+      threshold: 2000,
+    });
+    expect(
+      parseMarketTitle("Highest temperature in Miami between 88 and 90°F on Aug 3, 2026?"),
+    ).toMatchObject({
+      comparator: "between",
+      threshold: 88,
+      thresholdHigh: 90,
+      unit: "F",
+      location: "Miami",
+    });
+  });
+
+  it("falls back to unparsed when there is no strike", () => {
+    const strike = parseMarketTitle("Will a major hurricane make Gulf Coast landfall in 2026?");
+    expect(strike.parsed).toBe(false);
+    expect(strike.threshold).toBeNull();
+    expect(strike.period).toBe("2026");
+    expect(strike.location).toBe("Gulf Coast");
+  });
+});
+
+describe("strikeGap", () => {
+  it("measures the strike against a loss level", () => {
+    const strike = parseMarketTitle("Will NYC get more than 4 inches of rain in April 2027?");
+    expect(strikeGap(strike, 5)).toEqual({ absolute: -1, relative: -0.2 });
+    expect(strikeGap(parseMarketTitle("Major hurricane landfall in 2026?"), 5)).toBeNull();
+  });
+});
+
+describe("applyStrikeBounds", () => {
+  it("prefers the listed bounds over the title", () => {
+    const base = parseMarketTitle("Highest temperature in NYC on Jul 4, 2026?");
+    expect(applyStrikeBounds(base, { strike_type: "less", cap_strike: 80 })).toMatchObject({
+      parsed: true,
+      comparator: "below",
+      threshold: 80,
+    });
+    expect(applyStrikeBounds(base, { floor_strike: 85, cap_strike: 86 })).toMatchObject({
+      comparator: "between",
+      threshold: 85,
+      thresholdHigh: 86,
+    });
+  });
+});
+
+describe("inferHedgeSide with a parsed strike", () => {
+  it("uses the comparator instead of title words", () => {
+    const analysis = { primary_risk_factor: "rain", is_long: null, is_short: "rain" };
+    const title = "Will NYC rain total top 4 inches in April 2027?";
+    expect(inferHedgeSide(title, analysis, parseMarketTitle(title))).toBe("yes");
+    const below = { ...parseMarketTitle(title), comparator: "below" as const };
+    expect(inferHedgeSide(title, analysis, below)).toBe("no");
+  });
+});
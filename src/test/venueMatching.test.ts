@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import {
+  bestVenueForSide,
+  groupEquivalentListings,
+  parseTitleThresholds,
+  scoreVenueMatch,
+  venueSidePrice,
+  type VenueListing,
+} from "@/lib/pipeline/venueMatching";
+import { attachCrossVenueQuotes, type ScoredMarket } from "@/lib/pipeline/snapshotPipeline";
+
+const kalshiFed: VenueListing = {
+  platform: "kalshi",
+  id: "FED-26DEC-T4.25",
+  title: "Will the Fed funds rate be above 4.25% after the December 2026 meeting?",
+  close_time: "2026-12-16T19:00:00Z",
+  price_yes: 38,
+  price_no: 63,
+};
+
+const polyFed: VenueListing = {
+  platform: "polymarket",
+  id: "polymarket-fed-above-425-dec-2026",
+  title: "Fed rate above 4.25% after December 2026 meeting?",
+  close_time: "2026-12-17T00:00:00Z",
+  price_yes: 0.34,
+  price_no: 0.66,
+};
+
+describe("parseTitleThresholds", () => {
+  it("reads strikes and ignores years and calendar days", () => {
+    expect(parseTitleThresholds("Baltic Dry Index above 2,000 by Dec 31 2026?")).toEqual([2000]);
+    expect(parseTitleThresholds("Henry Hub above $4.00 in winter 2026-27?")).toEqual([4]);
+    expect(parseTitleThresholds("Major hurricane landfall in 2026?")).toEqual([]);
+  });
+});
+
+describe("scoreVenueMatch", () => {
+  it("links the same event across venues", () => {
+    const match = scoreVenueMatch(kalshiFed, polyFed);
+    expect(match?.kind).toBe("equivalent");
+    expect(match?.thresholds).toEqual([4.25]);
+  });
+
+  it("rejects different strikes, opposite directions and distant close times", () => {
+    expect(scoreVenueMatch(kalshiFed, { ...polyFed, title: polyFed.title.replace("4.25", "4.50") })).toBeNull();
+    expect(scoreVenueMatch(kalshiFed, { ...polyFed, title: polyFed.title.replace("above", "below") })).toBeNull();
+    expect(scoreVenueMatch(kalshiFed, { ...polyFed, close_time: "2027-02-01T00:00:00Z" })).toBeNull();
+    expect(scoreVenueMatch(kalshiFed, { ...polyFed, platform: "kalshi" })).toBeNull();
+  });
+});
+
+describe("groupEquivalentListings", () => {
+  it("pairs each listing with at most one listing per other venue", () => {
+    const unrelated: VenueListing = {
+      platform: "polymarket",
+      id: "polymarket-hurricane",
+      title: "Will a major hurricane make Gulf Coast landfall in 2026?",
+      close_time: "2026-11-15T21:00:00Z",
+    };
+    const groups = groupEquivalentListings([kalshiFed, unrelated, polyFed, { ...polyFed, id: "dup" }]);
+
+    expect(groups.map((group) => group.listings.map((listing) => listing.id))).toEqual([
+      [kalshiFed.id, polyFed.id],
+      [unrelated.id],
+      ["dup"],
+    ]);
+  });
+});
+
+describe("bestVenueForSide", () => {
+  it("normalizes cents and picks the cheaper venue per side", () => {
+    expect(bestVenueForSide([kalshiFed, polyFed], "yes")).toEqual({ listing: polyFed, price: 0.34 });
+    expect(bestVenueForSide([kalshiFed, polyFed], "no")).toEqual({ listing: kalshiFed, price: 0.63 });
+  });
+
+  it("reads Kalshi prices as cents and Polymarket prices as dollars, even at the edges", () => {
+    const kalshiPenny = { ...kalshiFed, price_yes: 1, price_no: 99 };
+    const polyDollar = { ...polyFed, price_yes: 1, price_no: 0 };
+    expect(bestVenueForSide([kalshiPenny, polyDollar], "yes")).toEqual({ listing: kalshiPenny, price: 0.01 });
+    expect(venueSidePrice(polyDollar, "yes")).toBeNull();
+  });
+});
+
+describe("attachCrossVenueQuotes", () => {
+  it("adds other-venue listings to matching scored markets only", () => {
+    const scored: ScoredMarket[] = [
+      {
+        platform: "kalshi",
+        ticker: "FED-26DEC",
+        market_ticker: kalshiFed.id,
+        title: kalshiFed.title,
+        close_time: kalshiFed.close_time,
+        price_yes: 38,
+        price_no: 63,
+        relevance_score: 8,
+        hedging_utility_score: 7,
+        timing_score: 6,
+        overall_score: 7,
+        reasoning: "",
+      },
+      {
+        platform: "kalshi",
+        ticker: "CORN-26",
+        title: "Will corn futures settle above $5 in March?",
+        close_time: "2027-03-20T00:00:00Z",
+        relevance_score: 5,
+        hedging_utility_score: 5,
+        timing_score: 5,
+        overall_score: 5,
+        reasoning: "",
+      },
+    ];
+
+    const [fed, corn] = attachCrossVenueQuotes(scored, [polyFed]);
+    expect(fed.venues).toEqual([polyFed]);
+    expect(fed.venue_match?.kind).toBe("equivalent");
+    expect(corn.venues).toBeUndefined();
+  });
+});
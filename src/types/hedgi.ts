@@ -46,6 +46,30 @@ export type MarketOutcome = {
   price?: number;
 };
 
+export type GeoScope = "city" | "state" | "region" | "national" | "global";
+
+export type GeoTag = {
+  scope: GeoScope;
+  name: string;
+  // Two-letter state code; set for cities and states.
+  state: string | null;
+  // Region id such as "US-SE"; null for national and global tags.
+  region: string | null;
+};
+
+export type StrikeComparator = "above" | "below" | "between";
+
+export type MarketStrike = {
+  parsed: boolean;
+  metric: string | null;
+  comparator: StrikeComparator | null;
+  threshold: number | null;
+  thresholdHigh: number | null;
+  unit: string | null;
+  period: string | null;
+  location: string | null;
+};
+
 export type Market = {
   id: string;
   source: MarketSource;
@@ -53,10 +77,14 @@ export type Market = {
   description?: string;
   categoryId: CategoryId;
   closeTime: string;
+  // When trading opens, if the venue says; absent means it is already open.
+  openTime?: string | null;
   outcomes: MarketOutcome[];
   liquidity?: number;
   volume?: number;
   url?: string;
+  strike?: MarketStrike;
+  locations?: GeoTag[];
 };
 
 export type RankedSignal = {
@@ -66,6 +94,8 @@ export type RankedSignal = {
   signalScore: number;
   mappedRisk: string;
   rationale: string;
+  // Equivalent listings of the same event on other venues.
+  venues?: Market[];
 };
 
 export type RankedSignalPartial = {